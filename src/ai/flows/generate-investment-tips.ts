@@ -15,8 +15,8 @@ import {z} from 'genkit';
 
 const InvestmentTipsInputSchema = z.object({
   initialInvestment: z.number().min(0, "Initial investment must be zero or positive").max(1000000000, "Initial investment is too large (max 1B)").describe('The initial amount invested.'),
-  contributionAmount: z.number().min(0, "Contribution amount must be zero or positive").max(1000000, "Contribution amount is too large (max 1M)").describe('The contribution amount per user-defined period (monthly/yearly).'),
-  contributionFrequency: ContributionFrequencySchema.describe('The frequency at which contributions are made (monthly or yearly).'), // Added
+  contributionAmount: z.number().min(0, "Contribution amount must be zero or positive").max(1000000, "Contribution amount is too large (max 1M)").describe('The contribution amount per deposit, made at the user-selected contribution frequency (per year for a continuous stream).'),
+  contributionFrequency: ContributionFrequencySchema.describe('The frequency at which contributions are made (weekly, biweekly, monthly, quarterly, yearly or continuously), independent of the compounding frequency.'), // Added
   interestRate: z.number().min(0, "Interest rate must be zero or positive").max(100, "Interest rate cannot exceed 100%").describe('The annual interest rate (as a percentage).'),
   investmentDuration: z.number().min(0, "Duration must be zero or positive").max(100, "Duration cannot exceed 100 years").describe('The investment duration in years.'),
   compoundingFrequency: CompoundingFrequencySchema.describe('The frequency at which interest is compounded.'),
@@ -0,0 +1,57 @@
+"use client";
+
+import { History } from 'lucide-react';
+import type { BacktestSummary } from '@/types';
+import { formatCurrency, formatYears } from '@/lib/format';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface BacktestOutcomesProps {
+  backtest: BacktestSummary;
+  investmentDuration: number | null | undefined;
+}
+
+// How the plan would have ended for every start year of the historical record, the worst and best highlighted.
+export default function BacktestOutcomes({ backtest, investmentDuration }: BacktestOutcomesProps) {
+  return (
+    <Card className="w-full shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <History className="mr-2 h-7 w-7" /> Historical Outcomes by Start Year
+        </CardTitle>
+        <CardDescription>
+          Every {formatYears(investmentDuration)} window starting between {backtest.firstStartYear} and {backtest.lastStartYear}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-primary">Start Year</TableHead>
+                <TableHead className="text-primary">Total Contributions</TableHead>
+                <TableHead className="text-primary">Total Growth</TableHead>
+                <TableHead className="text-primary">Ending Balance</TableHead>
+                <TableHead className="text-primary">Ending Balance (Start Year $)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {backtest.outcomesByStartYear.map((data) => (
+                <TableRow
+                  key={data.year}
+                  className={data.year === backtest.worst.startYear ? 'bg-destructive/10' : data.year === backtest.best.startYear ? 'bg-primary/10' : undefined}
+                >
+                  <TableCell>{data.year}</TableCell>
+                  <TableCell>{formatCurrency(data.startingBalance + data.contributions)}</TableCell>
+                  <TableCell>{formatCurrency(data.endingBalance - data.startingBalance - data.contributions)}</TableCell>
+                  <TableCell className="font-semibold text-primary">{formatCurrency(data.endingBalance)}</TableCell>
+                  <TableCell>{formatCurrency(data.realEndingBalance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
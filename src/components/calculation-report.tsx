@@ -0,0 +1,223 @@
+"use client";
+
+import { createPortal } from 'react-dom';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Download, Printer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import type { CalculationResults, InvestmentFormData, YearlyData } from '@/types';
+import { formatReportAxisValue, toPdfReport, type ReportContent } from '@/lib/export';
+import { buildExportInputs, downloadFile, formatExportValue } from '@/lib/calculation-export';
+import { calculationModeLabels, comparableResultDisplay, formatCashFlows, formatCurrency, formatPercentage, formatResultValue, formatYearLabel } from '@/lib/format';
+import type { ComparableResultField } from '@/lib/engine';
+import { chartConfig as growthChartConfig, type ChartDisplayDataItem } from '@/components/growth-chart';
+import type { ProjectionColumns } from '@/components/yearly-projection-table';
+import { useToast } from '@/hooks/use-toast';
+
+const REPORT_DISCLAIMER =
+  "This report is an illustration based on the assumptions listed above and is not financial, investment, tax or legal advice. " +
+  "Returns, inflation, taxes and fees will differ from these assumptions, and past performance does not guarantee future results. " +
+  "Consult a qualified professional before making investment decisions.";
+
+interface ReportSource {
+  results: CalculationResults;
+  inputs: InvestmentFormData;
+  chartData: ChartDisplayDataItem[];
+  yearlyData: YearlyData[];
+  columns: ProjectionColumns;
+  showRealValues: boolean;
+  tips: ReportContent['tips'];
+}
+
+// The report mirrors what is on screen: the results summary, the growth chart (nominal or today's dollars, as
+// toggled), the yearly table with the same columns, and the AI tips that have loaded.
+export const buildCalculationReport = ({ results, inputs, chartData, yearlyData, columns, showRealValues, tips }: ReportSource): ReportContent => {
+  const valueSuffix = showRealValues ? " (Today's $)" : '';
+  const chartRows = chartData.filter(row => row.totalValue !== undefined);
+  return {
+    title: `Investment Report - ${calculationModeLabels[inputs.calculationMode]}`,
+    generatedAt: new Date(),
+    summary: (Object.keys(comparableResultDisplay) as ComparableResultField[])
+      .filter(field => results[field] !== undefined && results[field] !== null)
+      .map(field => ({ label: comparableResultDisplay[field].label, value: formatResultValue(comparableResultDisplay[field].kind, results[field]!) })),
+    chart: {
+      labels: chartRows.map(row => row.name),
+      series: [
+        { name: `${growthChartConfig.totalValue.label}${valueSuffix}`, color: '#15803d', values: chartRows.map(row => row.totalValue ?? null) },
+        { name: `${growthChartConfig.amountInvested.label}${valueSuffix}`, color: '#2563eb', dashed: true, values: chartRows.map(row => row.amountInvested ?? null) },
+      ],
+    },
+    table: {
+      headers: [
+        'Year',
+        ...(columns.rate ? ['Rate'] : []),
+        'Starting Balance',
+        'Contributions',
+        ...(columns.cashFlows ? ['One-off Cash Flows'] : []),
+        ...(columns.withdrawals ? ['Withdrawals'] : []),
+        'Interest Earned',
+        ...(columns.fees ? ['Fees Paid'] : []),
+        ...(columns.taxes ? ['Taxes Paid'] : []),
+        'Ending Balance',
+        ...(columns.realBalance ? ["Ending Balance (Today's $)"] : []),
+      ],
+      rows: yearlyData.map(data => [
+        formatYearLabel(data),
+        ...(columns.rate ? [formatPercentage(data.interestRate)] : []),
+        formatCurrency(data.startingBalance),
+        formatCurrency(data.contributions),
+        ...(columns.cashFlows ? [formatCashFlows(data)] : []),
+        ...(columns.withdrawals ? [data.withdrawals !== undefined ? formatCurrency(data.withdrawals) : '—'] : []),
+        formatCurrency(data.interestEarned),
+        ...(columns.fees ? [formatCurrency(data.feesPaid)] : []),
+        ...(columns.taxes ? [formatCurrency(data.taxesPaid)] : []),
+        formatCurrency(data.endingBalance),
+        ...(columns.realBalance ? [formatCurrency(data.realEndingBalance)] : []),
+      ]),
+    },
+    tips,
+    assumptions: [
+      ...buildExportInputs(inputs).map(row => `${row.label}: ${formatExportValue(row)}`),
+      'Rates are applied as entered for every year of the projection; actual returns vary from year to year.',
+    ],
+    disclaimer: REPORT_DISCLAIMER,
+  };
+};
+
+interface CalculationReportProps {
+  report: ReportContent;
+  onClose: () => void;
+}
+
+// The report as a light, paper-like document over the page, rendered into the body so that printing can hide the
+// calculator and print only the report, paginated by the browser.
+export default function CalculationReport({ report, onClose }: CalculationReportProps) {
+  const { toast } = useToast();
+  const chartConfig = Object.fromEntries(
+    report.chart.series.map((series, index) => [`series${index}`, { label: series.name, color: series.color }])
+  ) satisfies ChartConfig;
+  const chartData = report.chart.labels.map((label, labelIndex) => ({
+    name: label,
+    ...Object.fromEntries(report.chart.series.map((series, index) => [`series${index}`, series.values[labelIndex]])),
+  }));
+
+  const downloadPdf = async () => {
+    try {
+      downloadFile(await toPdfReport(report), 'application/pdf', `investment-report-${format(report.generatedAt, 'yyyy-MM-dd')}.pdf`);
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      toast({ title: "Export Error", description: "The PDF could not be created. Please try again.", variant: "destructive" });
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto bg-neutral-200 text-neutral-900 print:static print:overflow-visible print:bg-white">
+      <div className="sticky top-0 z-10 flex justify-end gap-2 bg-neutral-800 p-3 print:hidden">
+        <Button type="button" variant="outline" size="sm" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" /> Print
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={downloadPdf}>
+          <Download className="mr-2 h-4 w-4" /> Download PDF
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={onClose}>
+          <X className="mr-2 h-4 w-4" /> Close
+        </Button>
+      </div>
+
+      <article className="mx-auto my-8 max-w-[210mm] bg-white p-12 text-sm shadow-lg print:m-0 print:max-w-none print:p-0 print:shadow-none">
+        <header className="mb-6">
+          <h1 className="text-2xl font-bold">{report.title}</h1>
+          <p className="text-xs text-neutral-500">Generated {format(report.generatedAt, 'MMMM d, yyyy')}</p>
+        </header>
+
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="mb-3 border-b border-green-700 pb-1 text-base font-bold text-green-700">Results Summary</h2>
+          <dl className="grid grid-cols-3 gap-x-6 gap-y-3">
+            {report.summary.map(figure => (
+              <div key={figure.label}>
+                <dt className="text-xs text-neutral-500">{figure.label}</dt>
+                <dd className="text-base font-semibold">{figure.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        {report.chart.labels.length > 1 && (
+          <section className="mb-6 break-inside-avoid">
+            <h2 className="mb-3 border-b border-green-700 pb-1 text-base font-bold text-green-700">Growth Over Time</h2>
+            <ChartContainer config={chartConfig} className="h-[260px] w-full [&_.recharts-cartesian-axis-tick_text]:fill-neutral-500">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid vertical={false} stroke="#d4d4d4" />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickFormatter={(value) => formatReportAxisValue(value)} tickLine={false} axisLine={false} width={60} />
+                <ChartLegend content={<ChartLegendContent className="text-neutral-900" />} />
+                {report.chart.series.map((series, index) => (
+                  <Line
+                    key={series.name}
+                    dataKey={`series${index}`}
+                    stroke={`var(--color-series${index})`}
+                    strokeWidth={2}
+                    strokeDasharray={series.dashed ? '5 5' : undefined}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </section>
+        )}
+
+        {report.table.rows.length > 0 && (
+          <section className="mb-6">
+            <h2 className="mb-3 border-b border-green-700 pb-1 text-base font-bold text-green-700">Yearly Projection</h2>
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="bg-green-50">
+                  {report.table.headers.map((header, index) => (
+                    <th key={header} className={`p-1.5 font-semibold ${index === 0 ? 'text-left' : 'text-right'}`}>{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.table.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="break-inside-avoid border-b border-neutral-200">
+                    {row.map((cell, index) => (
+                      <td key={index} className={`p-1.5 ${index === 0 ? 'text-left' : 'text-right tabular-nums'}`}>{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {report.tips.length > 0 && (
+          <section className="mb-6">
+            <h2 className="mb-3 border-b border-green-700 pb-1 text-base font-bold text-green-700">Investment Tips</h2>
+            <div className="space-y-3">
+              {report.tips.map(tip => (
+                <div key={tip.title} className="break-inside-avoid">
+                  <p className="font-semibold">{tip.title}</p>
+                  <p>{tip.description}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="mb-3 border-b border-green-700 pb-1 text-base font-bold text-green-700">Assumptions</h2>
+          <ul className="list-disc space-y-1 pl-5">
+            {report.assumptions.map(assumption => <li key={assumption}>{assumption}</li>)}
+          </ul>
+        </section>
+
+        <footer className="break-inside-avoid border-t border-neutral-300 pt-3 text-xs text-neutral-500">
+          {report.disclaimer}
+        </footer>
+      </article>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form';
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { cashFlowEventTypeLabels } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { FormDescription as ShadcnFormDescription, FormLabel } from '@/components/ui/form';
+import { NumericFormField, SelectFormField, optionsOf } from '@/components/form-fields';
+
+const cashFlowEventTypeOptions = optionsOf(cashFlowEventTypeLabels);
+
+// Lump sums in and out, and pauses of the regular contributions, at given months of the projection.
+export default function CashFlowEventFields() {
+  const { control, formState } = useFormContext<InvestmentFormData>();
+  const { fields, append, remove } = useFieldArray({ control, name: 'cashFlowEvents' });
+  const cashFlowEvents = useWatch({ control, name: 'cashFlowEvents' });
+
+  return (
+    <div className="space-y-3">
+      <FormLabel className="flex items-center text-base">
+        <CalendarDays className="mr-2 h-4 w-4 text-primary" />
+        One-off Events
+      </FormLabel>
+      {fields.map((cashFlowEvent, index) => (
+        <div key={cashFlowEvent.id} className="grid grid-cols-[1.5fr_0.8fr_0.8fr_1fr_auto] gap-3 items-start">
+          <SelectFormField name={`cashFlowEvents.${index}.type`} options={cashFlowEventTypeOptions} ariaLabel={`Event ${index + 1} type`} />
+          <NumericFormField name={`cashFlowEvents.${index}.year`} placeholder="Year" ariaLabel={`Event ${index + 1} year`} />
+          <NumericFormField name={`cashFlowEvents.${index}.month`} placeholder="Month" ariaLabel={`Event ${index + 1} month`} />
+          {cashFlowEvents?.[index]?.type === 'pauseContributions' ? (
+            <NumericFormField name={`cashFlowEvents.${index}.durationMonths`} placeholder="Months, e.g., 6" ariaLabel={`Event ${index + 1} duration in months`} />
+          ) : (
+            <NumericFormField name={`cashFlowEvents.${index}.amount`} placeholder="Amount ($)" ariaLabel={`Event ${index + 1} amount`} />
+          )}
+          <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label={`Remove event ${index + 1}`}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append({ type: 'deposit', year: 1, month: 1, amount: 1000, durationMonths: null })}
+      >
+        <Plus className="mr-2 h-4 w-4" /> Add Event
+      </Button>
+      {formState.errors.cashFlowEvents?.message && (
+        <p className="text-sm font-medium text-destructive">{formState.errors.cashFlowEvents.message}</p>
+      )}
+      <ShadcnFormDescription className="text-xs">
+        Lump sums and pauses take effect at the start of the given month (year 1, month 1 is the start). A pause skips every regular contribution due while it lasts.
+      </ShadcnFormDescription>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useFormContext } from 'react-hook-form';
+import { DollarSign, Percent, Target } from 'lucide-react';
+import type { CalculationMode, InvestmentFormData } from '@/types';
+import { ContributionFrequencySchema } from '@/types';
+import { formatOptionLabel } from '@/lib/format';
+import { FormControl, FormField, FormItem, FormMessage, FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { FieldLabel, NumericFormField, SelectFormField, formatForDisplay, parseNumericInput } from '@/components/form-fields';
+
+const contributionFrequencyOptions = Object.values(ContributionFrequencySchema.Values).map(value => ({
+  value,
+  label: formatOptionLabel(value),
+}));
+
+interface ContributionFieldsProps {
+  // The input being solved for has no field of its own.
+  calculationMode: CalculationMode;
+}
+
+// The target, the money put in and how it grows from year to year.
+export default function ContributionFields({ calculationMode }: ContributionFieldsProps) {
+  const { control } = useFormContext<InvestmentFormData>();
+
+  return (
+    <>
+      {calculationMode !== 'futureValue' && (
+        <NumericFormField name="targetFutureValue" icon={Target} label="Target Future Value ($)" placeholder="e.g., 1,000,000" />
+      )}
+
+      {calculationMode !== 'calculateInitialInvestment' && (
+        <NumericFormField name="initialInvestment" icon={DollarSign} label="Initial Investment ($)" placeholder="e.g., 1,000" />
+      )}
+
+      {calculationMode !== 'calculateMonthlyContribution' ? (
+        <FormField
+          control={control}
+          name="contributionAmount"
+          render={({ field: contributionAmountField }) => (
+            <FormItem>
+              <FieldLabel icon={DollarSign}>Contribution Amount ($)</FieldLabel>
+              <ShadcnFormDescription className="text-xs mb-2">
+                Enter the amount of each deposit and how often it is made (for a continuous stream, the amount deposited per year).
+              </ShadcnFormDescription>
+              <div className="flex items-end space-x-2">
+                <FormControl className="flex-grow">
+                  <Input
+                    type="text"
+                    placeholder="e.g., 100"
+                    {...contributionAmountField}
+                    value={formatForDisplay(contributionAmountField.value)}
+                    onChange={(e) => contributionAmountField.onChange(parseNumericInput(e.target.value))}
+                    className="text-base"
+                  />
+                </FormControl>
+                <div className="w-36">
+                  <SelectFormField name="contributionFrequency" placeholder="Frequency" options={contributionFrequencyOptions} ariaLabel="Contribution frequency" />
+                </div>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ) : (
+        <SelectFormField
+          name="contributionFrequency"
+          label="Calculate As (Contribution Frequency)"
+          description="The calculated contribution amount will be per deposit at this frequency."
+          placeholder="Select contribution frequency"
+          options={contributionFrequencyOptions}
+        />
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <NumericFormField name="contributionIncreaseRate" icon={Percent} label="Yearly Increase (%)" placeholder="e.g., 3" />
+        <NumericFormField name="contributionIncreaseAmount" icon={DollarSign} label="Yearly Increase ($)" placeholder="e.g., 25" />
+        <ShadcnFormDescription className="text-xs sm:col-span-2 -mt-2">
+          Each contribution is stepped up at the start of every year, first by the percentage and then by the dollar amount.
+        </ShadcnFormDescription>
+      </div>
+    </>
+  );
+}
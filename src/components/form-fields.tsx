@@ -0,0 +1,129 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { useFormContext, type FieldPath } from 'react-hook-form';
+import type { LucideIcon } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// The inputs of the investment form. Numbers are typed as text so they can be shown with thousands separators.
+
+export const formatForDisplay = (value: number | undefined | null): string => {
+  if (value === undefined || value === null || isNaN(Number(value))) {
+    return '';
+  }
+  const numValue = Number(value);
+  if (numValue === 0) return '0';
+  return numValue.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 20 });
+};
+
+export const parseNumericInput = (inputValue: string | number | undefined | null): number | null => {
+  if (inputValue === undefined || inputValue === null) return null;
+  const stringValue = String(inputValue).trim();
+  if (stringValue === "") return null;
+
+  const cleaned = stringValue.replace(/[^0-9.-]/g, '');
+  if (cleaned === '' || cleaned === '.' || cleaned === '-' || cleaned === '-.') return null;
+
+  if ((cleaned.match(/\./g) || []).length > 1) return null;
+  if ((cleaned.match(/-/g) || []).length > 1 || (cleaned.indexOf('-') > 0)) return null;
+
+  const numberValue = parseFloat(cleaned);
+  return isNaN(numberValue) ? null : numberValue;
+};
+
+export const optionsOf = <Value extends string>(labels: Record<Value, string>) =>
+  (Object.entries(labels) as [Value, string][]).map(([value, label]) => ({ value, label }));
+
+interface FieldLabelProps {
+  icon?: LucideIcon;
+  children: ReactNode;
+}
+
+export const FieldLabel = ({ icon: Icon, children }: FieldLabelProps) => (
+  <FormLabel className="flex items-center text-base">
+    {Icon && <Icon className="mr-2 h-4 w-4 text-primary" />}
+    {children}
+  </FormLabel>
+);
+
+interface NumericFormFieldProps {
+  name: FieldPath<InvestmentFormData>;
+  // Rows of a list, such as the one-off events, have no label of their own and are named for screen readers instead.
+  label?: ReactNode;
+  icon?: LucideIcon;
+  description?: ReactNode;
+  placeholder: string;
+  ariaLabel?: string;
+}
+
+export function NumericFormField({ name, label, icon, description, placeholder, ariaLabel }: NumericFormFieldProps) {
+  const { control } = useFormContext<InvestmentFormData>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          {label && <FieldLabel icon={icon}>{label}</FieldLabel>}
+          {description && <ShadcnFormDescription className="text-xs">{description}</ShadcnFormDescription>}
+          <FormControl>
+            <Input
+              type="text"
+              placeholder={placeholder}
+              {...field}
+              value={formatForDisplay(field.value as number | null | undefined)}
+              onChange={(e) => field.onChange(parseNumericInput(e.target.value))}
+              className="text-base"
+              aria-label={ariaLabel}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface SelectFormFieldProps {
+  name: FieldPath<InvestmentFormData>;
+  label?: ReactNode;
+  icon?: LucideIcon;
+  description?: ReactNode;
+  placeholder?: string;
+  options: { value: string; label: string }[];
+  ariaLabel?: string;
+}
+
+export function SelectFormField({ name, label, icon, description, placeholder, options, ariaLabel }: SelectFormFieldProps) {
+  const { control } = useFormContext<InvestmentFormData>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          {label && <FieldLabel icon={icon}>{label}</FieldLabel>}
+          <Select onValueChange={field.onChange} value={field.value as string}>
+            <FormControl>
+              <SelectTrigger className="text-base" aria-label={ariaLabel}>
+                <SelectValue placeholder={placeholder} />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value} className="text-base">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {description && <ShadcnFormDescription className="text-xs">{description}</ShadcnFormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { AreaChart } from 'lucide-react';
+import { Area, CartesianGrid, ComposedChart, Legend as RechartsLegend, Line as RechartsLine, ReferenceLine, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import type { CalculationResults, CashFlowEvent, InvestmentFormData, YearlyData } from '@/types';
+import { compareYearlyData } from '@/lib/engine';
+import { describeCashFlowEvent, formatCurrency, formatYearLabel } from '@/lib/format';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegendContent, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+export interface ChartDisplayDataItem {
+  name: string;
+  totalValue?: number; // unset on years only a longer pinned scenario reaches
+  amountInvested?: number;
+  interestAccumulated?: number;
+  percentileBand?: [number, number]; // 10th-90th percentile of Monte Carlo balances
+  medianBalance?: number;
+  worstHistoricalBalance?: number; // backtest path for the worst historical start year
+  [pinnedScenarioKey: `pinned_${string}`]: number | undefined; // ending balance of each pinned scenario in that year
+}
+
+export const chartConfig = {
+  totalValue: {
+    label: "Total Value",
+    color: "hsl(var(--chart-1))",
+  },
+  amountInvested: {
+    label: "Amount Invested",
+    color: "hsl(var(--chart-2))",
+  },
+  interestAccumulated: {
+    label: "Interest Accumulated",
+    color: "hsl(var(--chart-3))",
+  },
+  percentileBand: {
+    label: "10th-90th Percentile",
+    color: "hsl(var(--chart-4))",
+  },
+  medianBalance: {
+    label: "Median (Simulated)",
+    color: "hsl(var(--chart-4))",
+  },
+  worstHistoricalBalance: {
+    label: "Worst Historical Start",
+    color: "hsl(var(--chart-5))",
+  },
+} satisfies ChartConfig;
+
+export const pinnedScenarioColors = ["hsl(var(--chart-6))", "hsl(var(--chart-7))", "hsl(var(--chart-8))", "hsl(var(--chart-9))"];
+
+// A calculation kept alongside the current one for comparison; it is not recalculated when the form changes.
+export interface PinnedScenario {
+  id: string;
+  name: string;
+  inputs: InvestmentFormData;
+  results: CalculationResults;
+  yearlyData: YearlyData[];
+}
+
+const getPinnedScenarioKey = (scenario: Pick<PinnedScenario, 'id'>) => `pinned_${scenario.id}` as const;
+
+const tooltipLineOrder: (keyof ChartDisplayDataItem)[] = ["totalValue", "medianBalance", "percentileBand", "worstHistoricalBalance", "amountInvested", "interestAccumulated"];
+
+// One point per projection year, in nominal or today's dollars, with the simulated and historical lines where they apply.
+export const buildGrowthChartData = (
+  yearlyData: YearlyData[],
+  initialInvestment: number,
+  results: CalculationResults | null,
+  pinnedScenarios: PinnedScenario[],
+  showRealValues: boolean,
+): ChartDisplayDataItem[] => {
+  let cumulativeContributions = initialInvestment;
+  const chartData = yearlyData.map(data => {
+    cumulativeContributions += ((showRealValues ? data.realContributions : data.contributions) || 0);
+    cumulativeContributions -= ((showRealValues ? data.realWithdrawals : data.withdrawals) || 0);
+    cumulativeContributions += ((showRealValues ? data.realEventDeposits : data.eventDeposits) || 0);
+    cumulativeContributions -= ((showRealValues ? data.realEventWithdrawals : data.eventWithdrawals) || 0);
+    const amountInvestedAtYearEnd = cumulativeContributions;
+    const totalValueAtYearEnd = showRealValues ? (data.realEndingBalance ?? data.endingBalance) : data.endingBalance;
+    const interestAccumulatedUpToThisYearEnd = totalValueAtYearEnd - amountInvestedAtYearEnd;
+    const simulated = showRealValues || data.withdrawals !== undefined
+      ? undefined
+      : results?.monteCarlo?.yearlyPercentiles.find(percentiles => percentiles.year === data.year);
+    const worstHistorical = data.withdrawals === undefined
+      ? results?.backtest?.worstPath.find(row => row.year === data.year)
+      : undefined;
+
+    return {
+      name: formatYearLabel(data),
+      totalValue: totalValueAtYearEnd,
+      amountInvested: amountInvestedAtYearEnd,
+      interestAccumulated: interestAccumulatedUpToThisYearEnd < 0 ? 0 : interestAccumulatedUpToThisYearEnd,
+      percentileBand: simulated ? [simulated.p10, simulated.p90] as [number, number] : undefined,
+      medianBalance: simulated?.p50,
+      worstHistoricalBalance: worstHistorical && (showRealValues ? worstHistorical.realEndingBalance : worstHistorical.endingBalance),
+    };
+  });
+  // Pinned scenarios are lined up by year number; years beyond the current projection only carry their lines.
+  const pinnedBalances = compareYearlyData([yearlyData, ...pinnedScenarios.map(scenario => scenario.yearlyData)], showRealValues);
+  return pinnedBalances.map(({ year, endingBalances }, yearIndex) => ({
+    ...(chartData[yearIndex] ?? { name: `Year ${year}` }),
+    ...Object.fromEntries(pinnedScenarios.map((scenario, index) => [getPinnedScenarioKey(scenario), endingBalances[index + 1] ?? undefined])),
+  }));
+};
+
+interface GrowthChartProps {
+  data: ChartDisplayDataItem[];
+  results: CalculationResults;
+  inputs: InvestmentFormData | null;
+  yearlyData: YearlyData[];
+  pinnedScenarios: PinnedScenario[];
+  hasInflation: boolean;
+  showRealValues: boolean;
+  onShowRealValuesChange: (show: boolean) => void;
+}
+
+export default function GrowthChart({ data, results, inputs, yearlyData, pinnedScenarios, hasInflation, showRealValues, onShowRealValuesChange }: GrowthChartProps) {
+  // One chart marker per year with events; only events within the accumulation period are applied.
+  const cashFlowEventMarkers = Object.entries(
+    (inputs?.cashFlowEvents ?? [])
+      .filter(event => event.year <= Math.ceil(inputs?.investmentDuration ?? 0))
+      .reduce<Record<number, CashFlowEvent[]>>((byYear, event) => ({ ...byYear, [event.year]: [...(byYear[event.year] ?? []), event] }), {})
+  ).map(([year, events]) => ({
+    year: Number(year),
+    name: formatYearLabel(yearlyData.find(row => row.year === Number(year)) ?? { year: Number(year) }),
+    label: events.map(describeCashFlowEvent).join(', '),
+    color: events.every(event => event.type === 'deposit') ? 'hsl(var(--primary))'
+      : events.every(event => event.type === 'withdrawal') ? 'hsl(var(--destructive))'
+      : 'hsl(var(--muted-foreground))',
+  }));
+
+  const hasMonteCarloBands = !!results.monteCarlo && !showRealValues;
+
+  const firstWithdrawalRow = yearlyData.find(row => row.withdrawals !== undefined);
+
+  const growthChartConfig: ChartConfig = {
+    ...chartConfig,
+    ...Object.fromEntries(pinnedScenarios.map((scenario, index) => [
+      getPinnedScenarioKey(scenario),
+      { label: scenario.name, color: pinnedScenarioColors[index % pinnedScenarioColors.length] },
+    ])),
+  };
+
+  return (
+    <Card className="w-full shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <AreaChart className="mr-2 h-7 w-7" /> Investment Growth Chart
+        </CardTitle>
+        <CardDescription>Visual representation of your investment growth over time.</CardDescription>
+        {hasInflation && (
+          <div className="flex items-center space-x-2 pt-2">
+            <Switch id="show-real-values" checked={showRealValues} onCheckedChange={onShowRealValuesChange} />
+            <Label htmlFor="show-real-values">Show in today&apos;s dollars (inflation-adjusted)</Label>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="pt-6">
+        <div className="overflow-x-auto">
+          {data.length > 0 ? (
+            <ChartContainer config={growthChartConfig} className="min-h-[300px] w-full min-w-[600px] aspect-video">
+              <ComposedChart data={data} margin={{ top: 5, right: 30, left: 30, bottom: 5 }}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} tickMargin={8} padding={{ left: 10, right: 10 }} />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} tickLine={false} axisLine={false} tickMargin={8} width={90} />
+                <RechartsTooltip
+                  cursor={{ strokeDasharray: '3 3' }}
+                  itemSorter={(item) => tooltipLineOrder.indexOf(item.dataKey as keyof ChartDisplayDataItem)}
+                  content={<ChartTooltipContent formatter={(value) => Array.isArray(value) ? value.map(v => formatCurrency(v as number)).join(' – ') : formatCurrency(value as number)} labelClassName="font-bold" indicator="dot" />}
+                />
+                <RechartsLegend content={<ChartLegendContent />} />
+                {hasMonteCarloBands && (
+                  <Area key="percentileBand" dataKey="percentileBand" type="monotone" stroke="none" fill="var(--color-percentileBand)" fillOpacity={0.2} name={chartConfig.percentileBand.label} />
+                )}
+                {hasMonteCarloBands && (
+                  <RechartsLine key="medianBalance" dataKey="medianBalance" type="monotone" stroke="var(--color-medianBalance)" strokeWidth={2} strokeDasharray="5 5" dot={false} name={chartConfig.medianBalance.label} />
+                )}
+                {results.backtest && (
+                  <RechartsLine key="worstHistoricalBalance" dataKey="worstHistoricalBalance" type="monotone" stroke="var(--color-worstHistoricalBalance)" strokeWidth={2} strokeDasharray="2 4" dot={false} name={`Worst Historical Start (${results.backtest.worst.startYear})`} />
+                )}
+                <RechartsLine key="totalValue" dataKey="totalValue" type="monotone" stroke="var(--color-totalValue)" strokeWidth={3} dot={{ r: 4, fillOpacity: 1 }} name={chartConfig.totalValue.label} />
+                <RechartsLine key="amountInvested" dataKey="amountInvested" type="monotone" stroke="var(--color-amountInvested)" strokeWidth={2} dot={false} name={chartConfig.amountInvested.label} />
+                {cashFlowEventMarkers.map(marker => (
+                  <ReferenceLine key={`event-${marker.year}`} x={marker.name} stroke={marker.color} strokeDasharray="2 2" label={{ value: marker.label, position: 'insideBottomRight', fill: marker.color, fontSize: 12 }} />
+                ))}
+                {firstWithdrawalRow && (
+                  <ReferenceLine x={formatYearLabel(firstWithdrawalRow)} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" label={{ value: 'Withdrawals start', position: 'insideTopLeft', fill: 'hsl(var(--muted-foreground))' }} />
+                )}
+                <RechartsLine key="interestAccumulated" dataKey="interestAccumulated" type="monotone" stroke="var(--color-interestAccumulated)" strokeWidth={2} dot={false} name={chartConfig.interestAccumulated.label} />
+                {pinnedScenarios.map(scenario => (
+                  <RechartsLine key={scenario.id} dataKey={getPinnedScenarioKey(scenario)} type="monotone" stroke={`var(--color-${getPinnedScenarioKey(scenario)})`} strokeWidth={2} strokeDasharray="6 3" dot={false} connectNulls name={scenario.name} />
+                ))}
+              </ComposedChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-center text-muted-foreground">No chart data available. Please check your inputs or calculation results.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useFieldArray, useFormContext } from 'react-hook-form';
+import { CalendarDays, Percent, Plus, Trash2, TrendingUp } from 'lucide-react';
+import type { CalculationMode, InvestmentFormData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { FormDescription as ShadcnFormDescription, FormLabel } from '@/components/ui/form';
+import { NumericFormField } from '@/components/form-fields';
+
+interface GrowthFieldsProps {
+  // The input being solved for has no field of its own.
+  calculationMode: CalculationMode;
+}
+
+// The return, how it changes over the years, how long the money is invested and the inflation it is measured against.
+export default function GrowthFields({ calculationMode }: GrowthFieldsProps) {
+  const { control, formState, getValues } = useFormContext<InvestmentFormData>();
+  const { fields: rateScheduleFields, append: appendRateChange, remove: removeRateChange } = useFieldArray({ control, name: 'rateSchedule' });
+
+  return (
+    <>
+      {calculationMode !== 'calculateInterestRate' && (
+        <NumericFormField
+          name="interestRate"
+          icon={Percent}
+          label="Annual Interest Rate (%)"
+          description={`Gross return, before any fees below.${rateScheduleFields.length > 0 ? ' Applies until the first rate change.' : ''}`}
+          placeholder="e.g., 7"
+        />
+      )}
+      <div className="space-y-3">
+        <FormLabel className="flex items-center text-base">
+          <TrendingUp className="mr-2 h-4 w-4 text-primary" />
+          Rate Changes (Glide Path)
+        </FormLabel>
+        {rateScheduleFields.map((rateChange, index) => (
+          <div key={rateChange.id} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start">
+            <NumericFormField name={`rateSchedule.${index}.startYear`} placeholder="From year, e.g., 16" ariaLabel={`Rate change ${index + 1} start year`} />
+            <NumericFormField name={`rateSchedule.${index}.rate`} placeholder="Rate (%), e.g., 5" ariaLabel={`Rate change ${index + 1} rate`} />
+            <Button type="button" variant="ghost" size="icon" onClick={() => removeRateChange(index)} aria-label={`Remove rate change ${index + 1}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            const lastStartYear = rateScheduleFields.length > 0 ? getValues(`rateSchedule.${rateScheduleFields.length - 1}.startYear`) : 1;
+            appendRateChange({ startYear: (lastStartYear || 1) + 10, rate: getValues('interestRate') ?? 5 });
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" /> Add Rate Change
+        </Button>
+        {formState.errors.rateSchedule?.message && (
+          <p className="text-sm font-medium text-destructive">{formState.errors.rateSchedule.message}</p>
+        )}
+        <ShadcnFormDescription className="text-xs">
+          Each rate applies from the start of its year until the next change, e.g. 8% for years 1-15, then 5% from year 16.
+        </ShadcnFormDescription>
+      </div>
+      {calculationMode !== 'calculateInvestmentDuration' && (
+        <NumericFormField name="investmentDuration" icon={CalendarDays} label="Investment Duration (Years)" placeholder="e.g., 10" />
+      )}
+      <NumericFormField
+        name="inflationRate"
+        icon={Percent}
+        label="Expected Inflation Rate (%)"
+        description="Used to also show results in today's dollars. Leave at 0 for nominal figures only."
+        placeholder="e.g., 2.5"
+      />
+    </>
+  );
+}
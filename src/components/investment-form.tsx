@@ -0,0 +1,80 @@
+"use client";
+
+import type { SubmitErrorHandler, SubmitHandler, UseFormReturn } from 'react-hook-form';
+import { Loader2, TrendingUp } from 'lucide-react';
+import type { CalculationMode, InvestmentFormData } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Form } from '@/components/ui/form';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import CashFlowEventFields from '@/components/cash-flow-event-fields';
+import ContributionFields from '@/components/contribution-fields';
+import GrowthFields from '@/components/growth-fields';
+import ScheduleFields from '@/components/schedule-fields';
+import SimulationFields from '@/components/simulation-fields';
+import TaxAndFeeFields from '@/components/tax-and-fee-fields';
+import WithdrawalFields from '@/components/withdrawal-fields';
+
+interface InvestmentFormProps {
+  form: UseFormReturn<InvestmentFormData>;
+  onSubmit: SubmitHandler<InvestmentFormData>;
+  onInvalid: SubmitErrorHandler<InvestmentFormData>;
+  calculationMode: CalculationMode;
+  onCalculationModeChange: (mode: CalculationMode) => void;
+  isCalculating: boolean;
+}
+
+// The inputs, one tab for each thing that can be calculated; the sections read and write the form through its context.
+export default function InvestmentForm({ form, onSubmit, onInvalid, calculationMode, onCalculationModeChange, isCalculating }: InvestmentFormProps) {
+  const isBusy = form.formState.isSubmitting || isCalculating;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="w-full flex flex-col items-center">
+        <div className="w-full max-w-xl mb-12">
+          <Card className="shadow-2xl shadow-primary/20">
+            <CardHeader>
+              <CardTitle className="text-2xl font-headline text-primary flex items-center">
+                <TrendingUp className="mr-2 h-7 w-7" /> Investment Inputs
+              </CardTitle>
+              <CardDescription>Select a tab to choose what to calculate.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs
+                value={calculationMode}
+                onValueChange={(value) => onCalculationModeChange(value as CalculationMode)}
+                className="mb-6"
+              >
+                <TabsList className="grid w-full grid-cols-2 md:grid-cols-5">
+                  <TabsTrigger value="futureValue">Future Value</TabsTrigger>
+                  <TabsTrigger value="calculateInitialInvestment">Initial Inv.</TabsTrigger>
+                  <TabsTrigger value="calculateMonthlyContribution">Contrib. Amount</TabsTrigger>
+                  <TabsTrigger value="calculateInterestRate">Interest Rate</TabsTrigger>
+                  <TabsTrigger value="calculateInvestmentDuration">Duration</TabsTrigger>
+                </TabsList>
+              </Tabs>
+
+              <div className="space-y-6">
+                <ContributionFields calculationMode={calculationMode} />
+                <CashFlowEventFields />
+                <ScheduleFields />
+                <GrowthFields calculationMode={calculationMode} />
+                <TaxAndFeeFields />
+                <SimulationFields />
+                <WithdrawalFields />
+                <Button
+                  type="submit"
+                  className="w-full text-lg py-6 bg-primary hover:bg-accent text-primary-foreground hover:text-accent-foreground transition-all duration-300 ease-in-out transform hover:scale-105"
+                  disabled={isBusy}
+                >
+                  {isBusy && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+                  Calculate
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </form>
+    </Form>
+  );
+}
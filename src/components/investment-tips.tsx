@@ -0,0 +1,49 @@
+"use client";
+
+import { Lightbulb, Loader2 } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AiTip } from '@/hooks/use-investment-tips';
+
+interface InvestmentTipsProps {
+  tips: AiTip[];
+  isLoading: boolean;
+}
+
+export default function InvestmentTips({ tips, isLoading }: InvestmentTipsProps) {
+  return (
+    <Card className="w-full shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <Lightbulb className="mr-2 h-7 w-7" /> AI Investment Tips
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center space-x-2 p-4">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Generating personalized tips...</p>
+          </div>
+        ) : (
+          <>
+            <Accordion type="single" collapsible className="w-full">
+              {tips.map((tip, index) => (
+                <AccordionItem value={`item-${index}`} key={index}>
+                  <AccordionTrigger className="text-left hover:text-accent transition-colors text-lg">
+                    Tip {index + 1}: {tip.title}
+                  </AccordionTrigger>
+                  <AccordionContent className="text-base">
+                    {tip.description}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+            <p className="text-xs text-muted-foreground mt-6 text-center">
+              Disclaimer: AI-generated tips are for informational purposes only and should not be considered financial advice. Consult with a qualified financial advisor before making investment decisions.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
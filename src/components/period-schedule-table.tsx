@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from 'react';
+import type { PeriodData } from '@/types';
+import type { PeriodGranularity } from '@/lib/engine';
+import { formatCashFlows, formatCurrency, formatPeriodLabel } from '@/lib/format';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const PERIOD_ROW_HEIGHT = 37; // px: one line of text-sm, py-2 cells and the row border
+const VISIBLE_PERIOD_ROWS = 12;
+const PERIOD_ROW_OVERSCAN = 8;
+
+interface PeriodScheduleTableProps {
+  periodData: PeriodData[];
+  granularity: PeriodGranularity;
+  showCashFlowEvents: boolean;
+  showFees: boolean;
+  showTaxes: boolean;
+}
+
+// Only the rows scrolled into view are rendered, so a 100-year daily schedule (36,500 periods) stays responsive.
+export default function PeriodScheduleTable({ periodData, granularity, showCashFlowEvents, showFees, showTaxes }: PeriodScheduleTableProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const firstRow = Math.max(0, Math.floor(scrollTop / PERIOD_ROW_HEIGHT) - PERIOD_ROW_OVERSCAN);
+  const lastRow = Math.min(periodData.length, Math.ceil(scrollTop / PERIOD_ROW_HEIGHT) + VISIBLE_PERIOD_ROWS + PERIOD_ROW_OVERSCAN);
+  const columnCount = 6 + (showCashFlowEvents ? 1 : 0) + (showFees ? 1 : 0) + (showTaxes ? 1 : 0);
+
+  return (
+    <div className="overflow-y-auto" style={{ height: PERIOD_ROW_HEIGHT * (VISIBLE_PERIOD_ROWS + 1) }} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+      <Table>
+        <TableHeader>
+          <TableRow style={{ height: PERIOD_ROW_HEIGHT }}>
+            <TableHead className="text-primary">Year</TableHead>
+            <TableHead className="text-primary">Period</TableHead>
+            <TableHead className="text-primary">Starting Balance</TableHead>
+            <TableHead className="text-primary">Contributions</TableHead>
+            {showCashFlowEvents && <TableHead className="text-primary">One-off Cash Flows</TableHead>}
+            <TableHead className="text-primary">Interest Earned</TableHead>
+            {showFees && <TableHead className="text-primary">Fees Paid</TableHead>}
+            {showTaxes && <TableHead className="text-primary">Taxes Paid</TableHead>}
+            <TableHead className="text-primary">Ending Balance</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {firstRow > 0 && <tr style={{ height: firstRow * PERIOD_ROW_HEIGHT }}><td colSpan={columnCount} /></tr>}
+          {periodData.slice(firstRow, lastRow).map((data) => (
+            <TableRow key={`${data.year}-${data.period}`} style={{ height: PERIOD_ROW_HEIGHT }} className="whitespace-nowrap">
+              <TableCell className="py-2">{data.year}</TableCell>
+              <TableCell className="py-2">{formatPeriodLabel(data, granularity)}</TableCell>
+              <TableCell className="py-2">{formatCurrency(data.startingBalance)}</TableCell>
+              <TableCell className="py-2">{formatCurrency(data.contributions)}</TableCell>
+              {showCashFlowEvents && <TableCell className="py-2">{formatCashFlows(data)}</TableCell>}
+              <TableCell className="py-2">{formatCurrency(data.interestEarned)}</TableCell>
+              {showFees && <TableCell className="py-2">{formatCurrency(data.feesPaid)}</TableCell>}
+              {showTaxes && <TableCell className="py-2">{formatCurrency(data.taxesPaid)}</TableCell>}
+              <TableCell className="py-2 font-semibold text-primary">{formatCurrency(data.endingBalance)}</TableCell>
+            </TableRow>
+          ))}
+          {lastRow < periodData.length && <tr style={{ height: (periodData.length - lastRow) * PERIOD_ROW_HEIGHT }}><td colSpan={columnCount} /></tr>}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { Link2, Printer, TrendingUp } from 'lucide-react';
+import type { CalculationResults, InvestmentFormData } from '@/types';
+import { accountTypeLabels, describeCashFlowEvent, formatCurrency, formatOptionLabel, formatPercentage, formatYears, withdrawalStrategyLabels } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { ProjectionColumns } from '@/components/yearly-projection-table';
+import type { MonteCarloProgress } from '@/hooks/use-monte-carlo-simulation';
+import { useToast } from '@/hooks/use-toast';
+
+const figureStyles = {
+  input: 'text-xl font-semibold',
+  solved: 'text-xl font-semibold text-primary',
+  highlight: 'text-2xl font-bold text-primary',
+  cost: 'text-xl font-semibold text-destructive',
+};
+
+interface FigureProps {
+  label: ReactNode;
+  style?: keyof typeof figureStyles;
+  note?: ReactNode;
+  children: ReactNode;
+}
+
+const Figure = ({ label, style = 'input', note, children }: FigureProps) => (
+  <div>
+    <p className="text-muted-foreground">{label}:</p>
+    <p className={figureStyles[style]}>{children}</p>
+    {note && <p className="text-xs text-muted-foreground">{note}</p>}
+  </div>
+);
+
+interface ResultsSummaryProps {
+  results: CalculationResults;
+  // The inputs the results were calculated from, with the solved-for input filled in.
+  inputs: InvestmentFormData | null;
+  // The parts of the calculation that apply, as for the yearly table.
+  columns: ProjectionColumns;
+  monteCarloProgress: MonteCarloProgress | null;
+  onCancelSimulation: () => void;
+  onShowReport: () => void;
+}
+
+// The inputs and every figure the calculation produced, with the simulation's progress while it runs.
+export default function ResultsSummary({ results, inputs, columns, monteCarloProgress, onCancelSimulation, onShowReport }: ResultsSummaryProps) {
+  const { toast } = useToast();
+  const hasContributionIncrease = !!(inputs?.contributionIncreaseRate || inputs?.contributionIncreaseAmount);
+  const isTaxedAccount = !!inputs?.accountType && inputs.accountType !== 'taxFree';
+  // The inputs shown are the ones entered, so the one being solved for is left out.
+  const mode = inputs?.calculationMode;
+
+  const copyScenarioLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link Copied", description: "Anyone opening the link sees this calculation with the same inputs." });
+    } catch (error) {
+      console.warn("Could not copy the scenario link:", error);
+      toast({ title: "Copy Failed", description: "Copy the link from the address bar instead.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="shadow-2xl shadow-primary/20">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <TrendingUp className="mr-2 h-7 w-7" /> Results Summary
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onShowReport}>
+            <Printer className="mr-2 h-4 w-4" /> Report
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={copyScenarioLink}>
+            <Link2 className="mr-2 h-4 w-4" /> Copy Link
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mode !== 'calculateInitialInvestment' && inputs?.initialInvestment != null && (
+          <Figure label="Initial Investment (Input)">{formatCurrency(inputs.initialInvestment)}</Figure>
+        )}
+        {results.originalTargetFutureValue != null && (
+          <Figure label="Target Future Value (Input)">{formatCurrency(results.originalTargetFutureValue)}</Figure>
+        )}
+        {inputs && mode !== 'calculateMonthlyContribution' && inputs.contributionAmount != null && (
+          <Figure label={`Contribution Amount (Input - ${inputs.contributionFrequency || 'N/A'})`}>{formatCurrency(inputs.contributionAmount)}</Figure>
+        )}
+        {inputs?.contributionFrequency && mode !== 'calculateMonthlyContribution' && (
+          <Figure label="Contribution Frequency (Input)">{formatOptionLabel(inputs.contributionFrequency)}</Figure>
+        )}
+        {inputs?.contributionTiming && (
+          <Figure label="Contribution Timing (Input)">{inputs.contributionTiming === 'beginning' ? 'Beginning of Period' : 'End of Period'}</Figure>
+        )}
+        {hasContributionIncrease && (
+          <Figure label="Yearly Contribution Increase (Input)">
+            {[
+              inputs?.contributionIncreaseRate ? formatPercentage(inputs.contributionIncreaseRate) : null,
+              inputs?.contributionIncreaseAmount ? formatCurrency(inputs.contributionIncreaseAmount) : null,
+            ].filter(Boolean).join(' + ')}
+          </Figure>
+        )}
+        {inputs?.compoundingFrequency && (
+          <Figure label="Compounding Frequency (Input)">{formatOptionLabel(inputs.compoundingFrequency)}</Figure>
+        )}
+        {mode !== 'calculateInterestRate' && inputs?.interestRate != null && (
+          <Figure label="Annual Interest Rate (Input)">{formatPercentage(inputs.interestRate)}</Figure>
+        )}
+        {columns.rate && inputs && (
+          <Figure label="Rate Changes (Input)">
+            {inputs.rateSchedule.map(entry => `${formatPercentage(entry.rate)} from year ${entry.startYear}`).join(', ')}
+          </Figure>
+        )}
+        {columns.cashFlows && inputs && (
+          <Figure label="One-off Events (Input)">
+            {inputs.cashFlowEvents.map(event => `${describeCashFlowEvent(event)} in year ${event.year}, month ${event.month}`).join('; ')}
+          </Figure>
+        )}
+        {mode !== 'calculateInvestmentDuration' && inputs?.investmentDuration != null && (
+          <Figure label="Investment Duration (Input)">{formatYears(inputs.investmentDuration)}</Figure>
+        )}
+
+        {results.calculatedInitialInvestment != null && (
+          <Figure label="Calculated Initial Investment" style="solved">{formatCurrency(results.calculatedInitialInvestment)}</Figure>
+        )}
+        {results.calculatedContributionAmount != null && (
+          <Figure label={`Calculated ${hasContributionIncrease ? 'Starting ' : ''}Contribution Amount (${inputs?.contributionFrequency || 'N/A'})`} style="solved">
+            {formatCurrency(results.calculatedContributionAmount)}
+          </Figure>
+        )}
+        {results.calculatedInterestRate != null && (
+          <Figure
+            label="Calculated Annual Interest Rate"
+            style="solved"
+            note={results.interestRateSolverConvergence && `${results.interestRateSolverConvergence.converged ? 'Converged' : 'Did not fully converge'} after ${results.interestRateSolverConvergence.iterations} iterations`}
+          >
+            {formatPercentage(results.calculatedInterestRate)}
+          </Figure>
+        )}
+        {results.calculatedInvestmentDuration != null && (
+          <Figure label="Calculated Investment Duration" style="solved">{formatYears(results.calculatedInvestmentDuration)}</Figure>
+        )}
+
+        <div>
+          <p className="text-muted-foreground">Projected Future Value:</p>
+          <p className="text-3xl font-bold text-primary">{formatCurrency(results.futureValue)}</p>
+        </div>
+        <Figure label="Total Contributions (Incl. Initial)">{formatCurrency(results.totalContributions)}</Figure>
+        {results.totalEventWithdrawals !== undefined && (
+          <Figure label="One-off Withdrawals">{formatCurrency(results.totalEventWithdrawals)}</Figure>
+        )}
+        <Figure label="Total Interest Earned">{formatCurrency(results.totalInterest)}</Figure>
+        {monteCarloProgress && (
+          <div>
+            <p className="text-muted-foreground">
+              Simulating… {monteCarloProgress.completedPaths.toLocaleString('en-US')} of {monteCarloProgress.totalPaths.toLocaleString('en-US')} paths
+            </p>
+            <div className="mt-2 flex items-center gap-2">
+              <Progress value={(monteCarloProgress.completedPaths / monteCarloProgress.totalPaths) * 100} className="h-2" />
+              <Button type="button" variant="ghost" size="sm" onClick={onCancelSimulation}>Cancel</Button>
+            </div>
+          </div>
+        )}
+        {results.monteCarlo && (
+          <>
+            <Figure
+              label={`Simulated Future Value (${results.monteCarlo.simulationCount.toLocaleString('en-US')} paths, seed ${results.monteCarlo.seed})`}
+              note="10th / 50th / 90th percentile"
+            >
+              {formatCurrency(results.monteCarlo.futureValuePercentiles.p10)} / <span className="text-primary">{formatCurrency(results.monteCarlo.futureValuePercentiles.p50)}</span> / {formatCurrency(results.monteCarlo.futureValuePercentiles.p90)}
+            </Figure>
+            {results.monteCarlo.probabilityOfReachingTarget !== null && (
+              <Figure label="Probability of Reaching Target" style="highlight">{formatPercentage(results.monteCarlo.probabilityOfReachingTarget * 100)}</Figure>
+            )}
+          </>
+        )}
+        {results.backtest && (
+          <Figure
+            label={`Historical Backtest (${results.backtest.allocation.stocks}% stocks / ${results.backtest.allocation.bonds}% bonds / ${results.backtest.allocation.cash}% cash)`}
+            note={`Worst (${results.backtest.worst.startYear}) / median (${results.backtest.median.startYear}) / best (${results.backtest.best.startYear}) start year`}
+          >
+            {formatCurrency(results.backtest.worst.futureValue)} / <span className="text-primary">{formatCurrency(results.backtest.median.futureValue)}</span> / {formatCurrency(results.backtest.best.futureValue)}
+          </Figure>
+        )}
+        {columns.withdrawals && (
+          <>
+            <Figure label="Withdrawal Strategy (Input)">{withdrawalStrategyLabels[inputs?.withdrawalStrategy ?? 'none']}</Figure>
+            <Figure label="Total Withdrawn">{formatCurrency(results.totalWithdrawals)}</Figure>
+            <Figure label="Money Lasts Until" style="highlight">
+              {results.moneyLastsUntilYear != null
+                ? `Year ${results.moneyLastsUntilYear}`
+                : `End of withdrawals (${formatCurrency(results.balanceAfterWithdrawals)} left)`}
+            </Figure>
+          </>
+        )}
+        {columns.fees && (
+          <>
+            <Figure label="Total Fees Paid">{formatCurrency(results.totalFeesPaid)}</Figure>
+            <Figure label="Cost of Fees (vs. Zero-Fee Scenario)" style="cost">{formatCurrency(results.costOfFees)}</Figure>
+          </>
+        )}
+        {isTaxedAccount && inputs && (
+          <>
+            <Figure label="Account Type (Input)">{accountTypeLabels[inputs.accountType]}</Figure>
+            {columns.taxes && (
+              <Figure label="Taxes Paid on Dividends Along the Way">{formatCurrency(results.totalTaxesPaid)}</Figure>
+            )}
+            <Figure label="Tax Due on Withdrawal">{formatCurrency(results.withdrawalTax)}</Figure>
+            <Figure label="After-Tax Future Value" style="highlight">{formatCurrency(results.afterTaxFutureValue)}</Figure>
+          </>
+        )}
+        {columns.realBalance && (
+          <>
+            <Figure label="Inflation Rate (Input)">{formatPercentage(inputs?.inflationRate)}</Figure>
+            <Figure label="Future Value in Today's Dollars" style="highlight">{formatCurrency(results.realFutureValue)}</Figure>
+            <Figure label="Total Contributions in Today's Dollars">{formatCurrency(results.realTotalContributions)}</Figure>
+            <Figure label="Real Interest Earned (Today's Dollars)">{formatCurrency(results.realTotalInterest)}</Figure>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from 'react';
+import { GitCompareArrows, Pin, X } from 'lucide-react';
+import type { CalculationResults, InvestmentFormData, YearlyData } from '@/types';
+import { compareResults, compareYearlyData } from '@/lib/engine';
+import { comparableResultDisplay, describeScenarioInputs, formatResultDelta, formatResultValue } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { pinnedScenarioColors, type PinnedScenario } from '@/components/growth-chart';
+import { useToast } from '@/hooks/use-toast';
+
+interface ScenarioComparisonProps {
+  // The calculation on screen, which "Pin" keeps.
+  results: CalculationResults;
+  inputs: InvestmentFormData | null;
+  yearlyData: YearlyData[];
+  pinnedScenarios: PinnedScenario[];
+  onPinnedScenariosChange: (scenarios: PinnedScenario[]) => void;
+  showRealValues: boolean;
+}
+
+// The current calculation side by side with the pinned ones: their results, then their balances year by year.
+export default function ScenarioComparison({ results, inputs, yearlyData, pinnedScenarios, onPinnedScenariosChange, showRealValues }: ScenarioComparisonProps) {
+  const [pinName, setPinName] = useState('');
+  const { toast } = useToast();
+
+  const pinCurrentScenario = () => {
+    if (!inputs) return;
+    const name = pinName.trim() || `Scenario ${pinnedScenarios.length + 1}`;
+    onPinnedScenariosChange([...pinnedScenarios, { id: Date.now().toString(36), name, inputs, results, yearlyData }]);
+    setPinName('');
+    toast({ title: "Scenario Pinned", description: `"${name}" will stay on the chart and in the comparison as you try other inputs.` });
+  };
+
+  const unpinScenario = (id: string) => {
+    onPinnedScenariosChange(pinnedScenarios.filter(scenario => scenario.id !== id));
+  };
+
+  const resultComparisons = pinnedScenarios.length > 0
+    ? compareResults([results, ...pinnedScenarios.map(scenario => scenario.results)])
+    : [];
+
+  const yearlyComparisons = pinnedScenarios.length > 0
+    ? compareYearlyData([yearlyData, ...pinnedScenarios.map(scenario => scenario.yearlyData)], showRealValues)
+    : [];
+
+  return (
+    <Card className="w-full shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <GitCompareArrows className="mr-2 h-7 w-7" /> Scenario Comparison
+        </CardTitle>
+        <CardDescription>Pin this result, change the inputs and calculate again to compare them side by side.</CardDescription>
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Input
+            value={pinName}
+            onChange={(e) => setPinName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); pinCurrentScenario(); } }}
+            placeholder={`Scenario ${pinnedScenarios.length + 1}`}
+            className="w-56"
+          />
+          <Button type="button" variant="outline" onClick={pinCurrentScenario}>
+            <Pin className="mr-2 h-4 w-4" /> Pin Current Result
+          </Button>
+          {pinnedScenarios.map((scenario, index) => (
+            <span key={scenario.id} className="inline-flex items-center rounded-md border px-2 py-1 text-sm" style={{ borderColor: pinnedScenarioColors[index % pinnedScenarioColors.length] }}>
+              {scenario.name}
+              <button type="button" className="ml-1 text-muted-foreground hover:text-destructive" onClick={() => unpinScenario(scenario.id)} aria-label={`Unpin ${scenario.name}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </CardHeader>
+      {pinnedScenarios.length > 0 && (
+        <CardContent className="space-y-8">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-primary">Result</TableHead>
+                <TableHead className="text-primary">
+                  Current
+                  {inputs && <div className="text-xs font-normal text-muted-foreground">{describeScenarioInputs(inputs)}</div>}
+                </TableHead>
+                {pinnedScenarios.map(scenario => (
+                  <TableHead key={scenario.id} className="text-primary">
+                    {scenario.name}
+                    <div className="text-xs font-normal text-muted-foreground">{describeScenarioInputs(scenario.inputs)}</div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {resultComparisons.map(({ field, values, deltas }) => (
+                <TableRow key={field}>
+                  <TableCell className="text-muted-foreground">{comparableResultDisplay[field].label}</TableCell>
+                  {values.map((value, index) => (
+                    <TableCell key={index} className={index === 0 ? 'font-semibold' : undefined}>
+                      {formatResultValue(comparableResultDisplay[field].kind, value)}
+                      {index > 0 && formatResultDelta(comparableResultDisplay[field].kind, deltas[index]) && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatResultDelta(comparableResultDisplay[field].kind, deltas[index])}
+                        </div>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div>
+            <p className="mb-2 font-semibold text-primary">Ending Balance by Year{showRealValues ? " (Today's $)" : ''}</p>
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-primary">Year</TableHead>
+                    <TableHead className="text-primary">Current</TableHead>
+                    {pinnedScenarios.map(scenario => (
+                      <TableHead key={scenario.id} className="text-primary">{scenario.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {yearlyComparisons.map(({ year, endingBalances, differences }) => (
+                    <TableRow key={year}>
+                      <TableCell>{year}</TableCell>
+                      {endingBalances.map((balance, index) => (
+                        <TableCell key={index} className={index === 0 ? 'font-semibold' : undefined}>
+                          {formatResultValue('currency', balance)}
+                          {index > 0 && formatResultDelta('currency', differences[index]) && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatResultDelta('currency', differences[index])}
+                            </div>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
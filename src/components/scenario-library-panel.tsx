@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Cloud, CloudOff, Copy, Library, Loader2, LogIn, LogOut, Pencil, Save, Trash2, Upload } from 'lucide-react';
+import type { CalculationResults, InvestmentFormData } from '@/types';
+import { createSavedScenario, duplicateSavedScenario, readScenarioLibrary, renameSavedScenario, writeScenarioLibrary, type SavedScenario } from '@/lib/scenario-library';
+import { calculationModeLabels, formatCurrency } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useCloudScenarios } from "@/hooks/use-cloud-scenarios";
+import { useToast } from "@/hooks/use-toast";
+
+interface ScenarioLibraryPanelProps {
+  // The calculation on screen and the inputs it was made from, which "Save" stores.
+  results: CalculationResults | null;
+  submittedInputs: InvestmentFormData | null;
+  onLoad: (scenario: SavedScenario) => void;
+}
+
+// The saved scenarios, kept in the user's account when signed in and in this browser otherwise.
+export default function ScenarioLibraryPanel({ results, submittedInputs, onLoad }: ScenarioLibraryPanelProps) {
+  const [savedScenarios, setSavedScenarios] = useState<SavedScenario[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [renamingScenarioId, setRenamingScenarioId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isMovingScenarios, setIsMovingScenarios] = useState(false);
+  const { toast } = useToast();
+  const cloud = useCloudScenarios();
+  // Signed-in users work with the scenarios in their account; everyone else with the ones kept in this browser.
+  const libraryScenarios: SavedScenario[] = cloud.user ? cloud.scenarios : savedScenarios;
+
+  useEffect(() => {
+    const library = readScenarioLibrary();
+    setSavedScenarios(library.scenarios);
+    if (library.error) {
+      toast({ title: "Saved Scenarios Error", description: library.error, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const updateSavedScenarios = (scenarios: SavedScenario[]) => {
+    setSavedScenarios(scenarios);
+    if (!writeScenarioLibrary(scenarios)) {
+      toast({ title: "Storage Error", description: "The browser did not allow the scenarios to be saved. They will be lost when the page is closed.", variant: "destructive" });
+    }
+  };
+
+  const saveCurrentScenario = () => {
+    if (!results || !submittedInputs) return;
+    const name = saveName.trim() || `Scenario ${libraryScenarios.length + 1}`;
+    const scenario = createSavedScenario(name, submittedInputs, results);
+    if (cloud.user) {
+      cloud.addScenario(scenario);
+    } else {
+      updateSavedScenarios([...savedScenarios, scenario]);
+    }
+    setSaveName('');
+    toast({ title: "Scenario Saved", description: `"${name}" is in your saved scenarios ${cloud.user ? 'in your account' : 'on this browser'}.` });
+  };
+
+  // A scenario leaves the browser only once the account has it, so nothing is lost if a write fails or never arrives.
+  const moveBrowserScenariosToAccount = async () => {
+    setIsMovingScenarios(true);
+    const moved = await Promise.all(savedScenarios.map(scenario => cloud.addScenario(duplicateSavedScenario(scenario, scenario.name))));
+    const remaining = savedScenarios.filter((_, index) => !moved[index]);
+    updateSavedScenarios(remaining);
+    setIsMovingScenarios(false);
+    if (remaining.length === 0) {
+      toast({ title: "Scenarios Moved", description: "The scenarios saved in this browser are now in your account." });
+    }
+  };
+
+  const loadSavedScenario = (scenario: SavedScenario) => {
+    onLoad(scenario);
+    toast({ title: "Scenario Loaded", description: `"${scenario.name}" was calculated again from its saved inputs.` });
+  };
+
+  const startRenamingScenario = (scenario: SavedScenario) => {
+    setRenamingScenarioId(scenario.id);
+    setRenameValue(scenario.name);
+  };
+
+  const finishRenamingScenario = () => {
+    const name = renameValue.trim();
+    const cloudScenario = cloud.user && cloud.scenarios.find(scenario => scenario.id === renamingScenarioId);
+    if (cloudScenario && name && name !== cloudScenario.name) {
+      cloud.updateScenario(renameSavedScenario(cloudScenario, name));
+    } else if (!cloud.user && renamingScenarioId && name) {
+      updateSavedScenarios(savedScenarios.map(scenario => scenario.id === renamingScenarioId ? renameSavedScenario(scenario, name) : scenario));
+    }
+    setRenamingScenarioId(null);
+  };
+
+  const duplicateScenario = (scenario: SavedScenario) => {
+    const copy = duplicateSavedScenario(scenario, `${scenario.name} (copy)`);
+    if (cloud.user) {
+      cloud.addScenario(copy);
+      return;
+    }
+    const index = savedScenarios.findIndex(saved => saved.id === scenario.id);
+    updateSavedScenarios([...savedScenarios.slice(0, index + 1), copy, ...savedScenarios.slice(index + 1)]);
+  };
+
+  const deleteSavedScenario = (scenario: SavedScenario) => {
+    if (cloud.user) {
+      cloud.deleteScenario(scenario.id);
+    } else {
+      updateSavedScenarios(savedScenarios.filter(saved => saved.id !== scenario.id));
+    }
+    toast({ title: "Scenario Deleted", description: `"${scenario.name}" was removed from your saved scenarios.` });
+  };
+
+  return (
+    <Card className="shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <Library className="mr-2 h-7 w-7" /> Saved Scenarios
+        </CardTitle>
+        <CardDescription>
+          {cloud.user
+            ? 'Save a calculation to load its inputs again later. Scenarios are kept in your account and synced across your devices.'
+            : 'Save a calculation to load its inputs again later. Scenarios are kept in this browser only.'}
+        </CardDescription>
+        {cloud.isAvailable && (
+          <div className="flex flex-wrap items-center gap-2 pt-2 text-sm">
+            {cloud.user ? (
+              <>
+                <span className="flex items-center text-muted-foreground">
+                  {cloud.syncStatus === 'synced' ? <Cloud className="mr-1 h-4 w-4" /> : <CloudOff className="mr-1 h-4 w-4" />}
+                  {cloud.user.email ?? cloud.user.displayName ?? 'Signed in'}
+                  {cloud.syncStatus === 'pending' && ' · syncing changes…'}
+                  {cloud.syncStatus === 'offline' && ' · offline, changes will sync when you reconnect'}
+                </span>
+                <Button type="button" variant="ghost" size="sm" onClick={cloud.signOut}>
+                  <LogOut className="mr-2 h-4 w-4" /> Sign Out
+                </Button>
+                {savedScenarios.length > 0 && (
+                  <Button type="button" variant="outline" size="sm" onClick={moveBrowserScenariosToAccount} disabled={isMovingScenarios}>
+                    {isMovingScenarios ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />} Move {savedScenarios.length} from This Browser
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Button type="button" variant="outline" size="sm" onClick={cloud.signIn}>
+                <LogIn className="mr-2 h-4 w-4" /> Sign In to Sync Scenarios
+              </Button>
+            )}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Input
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); saveCurrentScenario(); } }}
+            placeholder={`Scenario ${libraryScenarios.length + 1}`}
+            className="w-56"
+            disabled={!results}
+          />
+          <Button type="button" variant="outline" onClick={saveCurrentScenario} disabled={!results}>
+            <Save className="mr-2 h-4 w-4" /> Save Current Result
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {libraryScenarios.length === 0 ? (
+          <p className="text-muted-foreground">No saved scenarios yet. Calculate, then save the result here.</p>
+        ) : (
+          <ul className="divide-y">
+            {libraryScenarios.map(scenario => (
+              <li key={scenario.id} className="flex items-center gap-2 py-2">
+                <div className="min-w-0 flex-grow">
+                  {renamingScenarioId === scenario.id ? (
+                    <Input
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') { e.preventDefault(); finishRenamingScenario(); }
+                        if (e.key === 'Escape') setRenamingScenarioId(null);
+                      }}
+                      onBlur={finishRenamingScenario}
+                      autoFocus
+                      className="h-8"
+                    />
+                  ) : (
+                    <p className="truncate font-semibold">{scenario.name}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {calculationModeLabels[scenario.inputs.calculationMode]} · {formatCurrency(scenario.results.futureValue)} when saved on {format(parseISO(scenario.savedAt), 'MMM d, yyyy')}
+                  </p>
+                </div>
+                <Button type="button" variant="ghost" size="icon" onClick={() => startRenamingScenario(scenario)} disabled={renamingScenarioId === scenario.id} aria-label={`Rename ${scenario.name}`}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => duplicateScenario(scenario)} aria-label={`Duplicate ${scenario.name}`}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => deleteSavedScenario(scenario)} aria-label={`Delete ${scenario.name}`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => loadSavedScenario(scenario)}>
+                  <Upload className="mr-2 h-4 w-4" /> Load
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
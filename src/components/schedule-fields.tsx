@@ -0,0 +1,122 @@
+"use client";
+
+import { useFormContext } from 'react-hook-form';
+import { CalendarDays, Hash, Repeat } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { CompoundingFrequencySchema } from '@/types';
+import { dayCountConventionLabels, formatOptionLabel } from '@/lib/format';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { FieldLabel, SelectFormField, optionsOf } from '@/components/form-fields';
+
+const compoundingFrequencyOptions = Object.values(CompoundingFrequencySchema.Values).map(value => ({
+  value,
+  label: formatOptionLabel(value),
+}));
+
+const dayCountConventionOptions = optionsOf(dayCountConventionLabels);
+
+// When contributions are made and interest is credited: the timing, the compounding and the calendar.
+export default function ScheduleFields() {
+  const { control } = useFormContext<InvestmentFormData>();
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="contributionTiming"
+        render={({ field }) => (
+          <FormItem className="space-y-2">
+            <FormLabel className="text-base">Contribution Timing</FormLabel>
+            <ShadcnFormDescription className="text-xs">
+              Deposits made at the beginning of each period earn interest for that period.
+            </ShadcnFormDescription>
+            <FormControl>
+              <RadioGroup
+                onValueChange={field.onChange}
+                value={field.value}
+                className="flex items-center space-x-4 pt-1"
+              >
+                <FormItem className="flex items-center space-x-2">
+                  <FormControl>
+                    <RadioGroupItem value="beginning" id="contrib-timing-beginning" />
+                  </FormControl>
+                  <FormLabel htmlFor="contrib-timing-beginning" className="font-normal text-base">
+                    Beginning of Period
+                  </FormLabel>
+                </FormItem>
+                <FormItem className="flex items-center space-x-2">
+                  <FormControl>
+                    <RadioGroupItem value="end" id="contrib-timing-end" />
+                  </FormControl>
+                  <FormLabel htmlFor="contrib-timing-end" className="font-normal text-base">
+                    End of Period
+                  </FormLabel>
+                </FormItem>
+              </RadioGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <SelectFormField
+        name="compoundingFrequency"
+        icon={Repeat}
+        label="Compounding Frequency"
+        placeholder="Select compounding frequency"
+        options={compoundingFrequencyOptions}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="startDate"
+          render={({ field }) => (
+            <FormItem>
+              <FieldLabel icon={CalendarDays}>Start Date (Optional)</FieldLabel>
+              <FormControl>
+                <Input type="date" className="text-base"
+                  value={field.value ?? ''}
+                  onChange={(e) => field.onChange(e.target.value || null)}
+                />
+              </FormControl>
+              <ShadcnFormDescription className="text-xs">
+                Projects on calendar dates, with leap years and real month lengths.
+              </ShadcnFormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <SelectFormField
+          name="dayCountConvention"
+          icon={Hash}
+          label="Day Count"
+          description="How interest accrues between compounding dates."
+          placeholder="Select day count"
+          options={dayCountConventionOptions}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name="perPeriodCentRounding"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <FieldLabel icon={Hash}>Round Every Period to the Cent</FieldLabel>
+              <ShadcnFormDescription className="text-xs">
+                Rounds each interest credit and fee charge like a bank statement. Balances are always rounded to the cent at year end.
+              </ShadcnFormDescription>
+            </div>
+            <FormControl>
+              <Switch checked={field.value} onCheckedChange={field.onChange} />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
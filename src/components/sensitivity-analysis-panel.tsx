@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, Legend as RechartsLegend, ReferenceLine, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { calculateRateDurationGrid, runSensitivityAnalysis, type ProjectionParams, type RateDurationGrid, type SensitivityAnalysis, type SensitivityInput, type SensitivityPoint } from '@/lib/engine';
+import { formatCompactCurrency, formatCurrency, formatOptionLabel, formatPercentage, formatYears } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegendContent, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatForDisplay, parseNumericInput } from '@/components/form-fields';
+import { useToast } from '@/hooks/use-toast';
+
+const sensitivityInputLabels: Record<SensitivityInput, string> = {
+  interestRate: 'Interest Rate',
+  contributionAmount: 'Contribution Amount',
+  investmentDuration: 'Investment Duration',
+  initialInvestment: 'Initial Investment',
+  compoundingFrequency: 'Compounding',
+};
+
+const formatSensitivityPoint = (input: SensitivityInput, point: SensitivityPoint | null) => {
+  if (!point) return 'No change possible';
+  if (typeof point.value === 'string') return formatOptionLabel(point.value);
+  if (input === 'interestRate') return formatPercentage(point.value);
+  if (input === 'investmentDuration') return formatYears(Number(point.value.toFixed(2)));
+  return formatCurrency(point.value);
+};
+
+const tornadoChartConfig = {
+  low: {
+    label: "Input Lowered",
+    color: "hsl(var(--chart-3))",
+  },
+  high: {
+    label: "Input Raised",
+    color: "hsl(var(--chart-1))",
+  },
+} satisfies ChartConfig;
+
+interface SensitivityAnalysisPanelProps {
+  // The resolved inputs of the calculation on screen; a new calculation clears the analysis of the previous one.
+  projectionParams: ProjectionParams;
+}
+
+// Which input moves the future value most, and the future value over a grid of interest rates and durations.
+export default function SensitivityAnalysisPanel({ projectionParams }: SensitivityAnalysisPanelProps) {
+  const [sensitivityPercent, setSensitivityPercent] = useState(10);
+  const [gridRateStep, setGridRateStep] = useState(1);
+  const [gridDurationStep, setGridDurationStep] = useState(5);
+  const [sensitivityAnalysis, setSensitivityAnalysis] = useState<SensitivityAnalysis | null>(null);
+  const [rateDurationGrid, setRateDurationGrid] = useState<RateDurationGrid | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSensitivityAnalysis(null);
+    setRateDurationGrid(null);
+  }, [projectionParams]);
+
+  const runSensitivity = () => {
+    if (!(sensitivityPercent > 0 && sensitivityPercent < 100) || !(gridRateStep > 0) || !(gridDurationStep > 0)) {
+      toast({ title: "Input Error", description: "The perturbation must be between 0% and 100%, and the grid steps must be positive.", variant: "destructive" });
+      return;
+    }
+    setSensitivityAnalysis(runSensitivityAnalysis(projectionParams, sensitivityPercent));
+    setRateDurationGrid(calculateRateDurationGrid(projectionParams, { interestRateStep: gridRateStep, investmentDurationStep: gridDurationStep, stepsEachSide: 3 }));
+  };
+
+  // Bars start at the base future value: how far lowering and raising each input moves it.
+  const tornadoChartData = sensitivityAnalysis?.factors.map(({ input, low, high }) => ({
+    name: sensitivityInputLabels[input],
+    low: (low?.futureValue ?? sensitivityAnalysis.baseFutureValue) - sensitivityAnalysis.baseFutureValue,
+    high: (high?.futureValue ?? sensitivityAnalysis.baseFutureValue) - sensitivityAnalysis.baseFutureValue,
+    lowLabel: formatSensitivityPoint(input, low),
+    highLabel: formatSensitivityPoint(input, high),
+  })) ?? [];
+
+  const gridFutureValues = rateDurationGrid?.futureValues.flat() ?? [];
+  const gridMinFutureValue = Math.min(...gridFutureValues);
+  const gridMaxFutureValue = Math.max(...gridFutureValues);
+  // Shaded on a log scale, since future values grow exponentially across the grid.
+  const getHeatmapShade = (futureValue: number) => {
+    if (gridMaxFutureValue <= gridMinFutureValue || futureValue <= 0 || gridMinFutureValue <= 0) return 0.1;
+    return 0.1 + 0.5 * Math.log(futureValue / gridMinFutureValue) / Math.log(gridMaxFutureValue / gridMinFutureValue);
+  };
+
+  return (
+    <Card className="w-full shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <SlidersHorizontal className="mr-2 h-7 w-7" /> Sensitivity Analysis
+        </CardTitle>
+        <CardDescription>Which input moves the future value most: each is lowered and raised on its own, with everything else held.</CardDescription>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 pt-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="sensitivity-percent">Change Each Input by (±%)</Label>
+            <Input id="sensitivity-percent" type="text" value={formatForDisplay(sensitivityPercent)} onChange={(e) => setSensitivityPercent(parseNumericInput(e.target.value) ?? 0)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="grid-rate-step">Grid Rate Step (pp)</Label>
+            <Input id="grid-rate-step" type="text" value={formatForDisplay(gridRateStep)} onChange={(e) => setGridRateStep(parseNumericInput(e.target.value) ?? 0)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="grid-duration-step">Grid Duration Step (Years)</Label>
+            <Input id="grid-duration-step" type="text" value={formatForDisplay(gridDurationStep)} onChange={(e) => setGridDurationStep(parseNumericInput(e.target.value) ?? 0)} />
+          </div>
+          <Button type="button" variant="outline" onClick={runSensitivity}>Analyze</Button>
+        </div>
+      </CardHeader>
+      {sensitivityAnalysis && rateDurationGrid && (
+        <CardContent className="space-y-8">
+          <div>
+            <p className="mb-2 font-semibold text-primary">
+              Change in Future Value (±{formatForDisplay(sensitivityAnalysis.perturbationPercent)}%, from {formatCurrency(sensitivityAnalysis.baseFutureValue)})
+            </p>
+            <div className="overflow-x-auto">
+              <ChartContainer config={tornadoChartConfig} className="min-h-[260px] w-full min-w-[600px]">
+                <BarChart data={tornadoChartData} layout="vertical" stackOffset="sign" margin={{ top: 5, right: 30, left: 30, bottom: 5 }}>
+                  <CartesianGrid horizontal={false} strokeDasharray="3 3" />
+                  <XAxis type="number" tickFormatter={(value) => formatCompactCurrency(value)} tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={140} />
+                  <RechartsTooltip
+                    cursor={{ fillOpacity: 0.1 }}
+                    content={<ChartTooltipContent formatter={(value, name, item) => name === 'low'
+                      ? `${tornadoChartConfig.low.label} (${item.payload.lowLabel}): ${formatCurrency(value as number)}`
+                      : `${tornadoChartConfig.high.label} (${item.payload.highLabel}): ${formatCurrency(value as number)}`} labelClassName="font-bold" indicator="dot" />}
+                  />
+                  <RechartsLegend content={<ChartLegendContent />} />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="low" stackId="swing" fill="var(--color-low)" name="low" />
+                  <Bar dataKey="high" stackId="swing" fill="var(--color-high)" name="high" />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-2 font-semibold text-primary">Future Value by Interest Rate and Duration</p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-primary">Duration \ Rate</TableHead>
+                    {rateDurationGrid.interestRates.map(rate => (
+                      <TableHead key={rate} className="text-primary text-center">{formatPercentage(rate)}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rateDurationGrid.investmentDurations.map((duration, durationIndex) => (
+                    <TableRow key={duration}>
+                      <TableCell className="font-semibold whitespace-nowrap">{formatYears(Number(duration.toFixed(2)))}</TableCell>
+                      {rateDurationGrid.futureValues[durationIndex].map((futureValue, rateIndex) => {
+                        const isCurrentScenario = duration === projectionParams.investmentDuration && rateDurationGrid.interestRates[rateIndex] === projectionParams.interestRate;
+                        return (
+                          <TableCell
+                            key={rateIndex}
+                            className={`text-center whitespace-nowrap ${isCurrentScenario ? 'font-bold ring-2 ring-inset ring-primary' : ''}`}
+                            style={{ backgroundColor: `hsl(var(--primary) / ${getHeatmapShade(futureValue)})` }}
+                            title={formatCurrency(futureValue)}
+                          >
+                            {formatCompactCurrency(futureValue)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
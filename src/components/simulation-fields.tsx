@@ -0,0 +1,83 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { useFormContext, useWatch } from 'react-hook-form';
+import { Dices, Hash, History, Percent, type LucideIcon } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { returnDistributionLabels } from '@/lib/format';
+import { FormControl, FormField, FormItem, FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { Switch } from '@/components/ui/switch';
+import { FieldLabel, NumericFormField, SelectFormField, optionsOf } from '@/components/form-fields';
+
+const returnDistributionOptions = optionsOf(returnDistributionLabels);
+
+interface FeatureSwitchProps {
+  name: 'monteCarloEnabled' | 'backtestEnabled';
+  icon: LucideIcon;
+  label: string;
+  description: ReactNode;
+}
+
+const FeatureSwitch = ({ name, icon, label, description }: FeatureSwitchProps) => {
+  const { control } = useFormContext<InvestmentFormData>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <FieldLabel icon={icon}>{label}</FieldLabel>
+            <ShadcnFormDescription className="text-xs">{description}</ShadcnFormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+};
+
+// The two ways of looking past a single fixed rate: simulated markets and the markets of the past.
+export default function SimulationFields() {
+  const { control } = useFormContext<InvestmentFormData>();
+  const [isMonteCarloEnabled, isBacktestEnabled] = useWatch({ control, name: ['monteCarloEnabled', 'backtestEnabled'] });
+
+  return (
+    <>
+      <FeatureSwitch
+        name="monteCarloEnabled"
+        icon={Dices}
+        label="Simulate Market Volatility"
+        description="Treats the interest rate as the expected yearly return and shows the range of outcomes over thousands of simulated markets."
+      />
+      {isMonteCarloEnabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <NumericFormField name="returnVolatility" icon={Percent} label="Volatility (% Std. Dev.)" placeholder="e.g., 15" />
+          <SelectFormField name="returnDistribution" label="Return Distribution" placeholder="Select distribution" options={returnDistributionOptions} />
+          <NumericFormField name="simulationCount" icon={Hash} label="Simulations" placeholder="e.g., 2000" />
+          <NumericFormField name="simulationSeed" icon={Hash} label="Random Seed" placeholder="e.g., 42" />
+          <ShadcnFormDescription className="text-xs sm:col-span-2 -mt-2">
+            The same seed always produces the same simulated paths.
+          </ShadcnFormDescription>
+        </div>
+      )}
+      <FeatureSwitch
+        name="backtestEnabled"
+        icon={History}
+        label="Historical Backtest"
+        description="Replays your plan against actual US market returns since 1928, for every possible start year."
+      />
+      {isBacktestEnabled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <NumericFormField name="stockAllocation" icon={Percent} label="Stocks (%)" placeholder="e.g., 60" />
+          <NumericFormField name="bondAllocation" icon={Percent} label="Bonds (%)" placeholder="e.g., 40" />
+          <ShadcnFormDescription className="text-xs sm:col-span-2 -mt-2">
+            The rest is held in cash (Treasury bills). The interest rate above is ignored in the backtest.
+          </ShadcnFormDescription>
+        </div>
+      )}
+    </>
+  );
+}
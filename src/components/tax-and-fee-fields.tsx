@@ -0,0 +1,46 @@
+"use client";
+
+import { useFormContext, useWatch } from 'react-hook-form';
+import { DollarSign, Landmark, Percent } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { accountTypeLabels } from '@/lib/format';
+import { FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { NumericFormField, SelectFormField, optionsOf } from '@/components/form-fields';
+
+const accountTypeOptions = optionsOf(accountTypeLabels);
+
+// The account the money is held in, the taxes it is subject to and the fees charged on it.
+export default function TaxAndFeeFields() {
+  const { control } = useFormContext<InvestmentFormData>();
+  const selectedAccountType = useWatch({ control, name: 'accountType' });
+
+  return (
+    <>
+      <SelectFormField name="accountType" icon={Landmark} label="Account Type" placeholder="Select account type" options={accountTypeOptions} />
+      {selectedAccountType === 'taxable' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <NumericFormField
+            name="dividendYield"
+            icon={Percent}
+            label="Dividend Yield (%)"
+            description="Part of the annual return paid out as dividends and taxed every year."
+            placeholder="e.g., 2"
+          />
+          <NumericFormField name="dividendTaxRate" icon={Percent} label="Dividend Tax Rate (%)" placeholder="e.g., 15" />
+          <NumericFormField name="capitalGainsTaxRate" icon={Percent} label="Capital Gains Tax Rate (%)" placeholder="e.g., 15" />
+        </div>
+      )}
+      {selectedAccountType === 'taxDeferred' && (
+        <NumericFormField name="marginalIncomeTaxRate" icon={Percent} label="Marginal Income Tax Rate at Withdrawal (%)" placeholder="e.g., 22" />
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <NumericFormField name="expenseRatio" icon={Percent} label="Expense Ratio (%)" placeholder="e.g., 0.2" />
+        <NumericFormField name="advisoryFeeRate" icon={Percent} label="Advisory Fee (%/yr)" placeholder="e.g., 1" />
+        <NumericFormField name="flatAnnualFee" icon={DollarSign} label="Annual Account Fee ($)" placeholder="e.g., 50" />
+        <ShadcnFormDescription className="text-xs sm:col-span-3 -mt-2">
+          Fees are deducted from the balance every compounding period.
+        </ShadcnFormDescription>
+      </div>
+    </>
+  );
+}
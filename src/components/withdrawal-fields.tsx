@@ -0,0 +1,46 @@
+"use client";
+
+import { useFormContext, useWatch } from 'react-hook-form';
+import { CalendarDays, DollarSign, Percent, Wallet } from 'lucide-react';
+import type { InvestmentFormData } from '@/types';
+import { withdrawalStrategyLabels } from '@/lib/format';
+import { FormDescription as ShadcnFormDescription } from '@/components/ui/form';
+import { NumericFormField, SelectFormField, optionsOf } from '@/components/form-fields';
+
+const withdrawalStrategyOptions = optionsOf(withdrawalStrategyLabels);
+
+// What is taken out once the investment period is over.
+export default function WithdrawalFields() {
+  const { control } = useFormContext<InvestmentFormData>();
+  const selectedWithdrawalStrategy = useWatch({ control, name: 'withdrawalStrategy' });
+
+  return (
+    <>
+      <SelectFormField
+        name="withdrawalStrategy"
+        icon={Wallet}
+        label="Withdrawals After the Investment Period"
+        placeholder="Select withdrawal strategy"
+        options={withdrawalStrategyOptions}
+      />
+      {selectedWithdrawalStrategy !== 'none' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {selectedWithdrawalStrategy === 'fixedPercentage' ? (
+            <NumericFormField name="withdrawalRate" icon={Percent} label="Yearly Withdrawal (% of Balance)" placeholder="e.g., 4" />
+          ) : (
+            <NumericFormField
+              name="withdrawalAmount"
+              icon={DollarSign}
+              label={selectedWithdrawalStrategy === 'inflationAdjusted' ? 'First-Year Withdrawal ($)' : 'Yearly Withdrawal ($)'}
+              placeholder="e.g., 40000"
+            />
+          )}
+          <NumericFormField name="withdrawalDuration" icon={CalendarDays} label="Withdrawal Period (Years)" placeholder="e.g., 30" />
+          <ShadcnFormDescription className="text-xs sm:col-span-2 -mt-2">
+            Withdrawals are taken at the start of each year. Leave the period empty to withdraw until the money runs out.
+          </ShadcnFormDescription>
+        </div>
+      )}
+    </>
+  );
+}
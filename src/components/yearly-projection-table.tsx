@@ -0,0 +1,191 @@
+"use client";
+
+import { Fragment } from 'react';
+import { format } from 'date-fns';
+import { CalendarDays, ChevronDown, ChevronRight, FileSpreadsheet, FileText } from 'lucide-react';
+import type { CalculationResults, InvestmentFormData, PeriodData, YearlyData } from '@/types';
+import type { PeriodGranularity } from '@/lib/engine';
+import { buildProjectionWorkbook, toCsv, toXlsx } from '@/lib/export';
+import { buildExportInputs, buildExportSummary, downloadFile } from '@/lib/calculation-export';
+import { calculationModeLabels, formatCashFlows, formatCurrency, formatPercentage, formatPeriodDates, formatPeriodLabel, periodGranularityLabels } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+// The optional columns of the yearly table, shown when the calculation has something to put in them.
+export interface ProjectionColumns {
+  rate: boolean;
+  cashFlows: boolean;
+  withdrawals: boolean;
+  fees: boolean;
+  taxes: boolean;
+  realBalance: boolean;
+}
+
+interface YearlyProjectionTableProps {
+  // The calculation the table shows, which the spreadsheet export puts above it.
+  results: CalculationResults;
+  inputs: InvestmentFormData | null;
+  yearlyData: YearlyData[];
+  // The period breakdown, worked out in the background after each calculation; empty until it is ready.
+  periodData: PeriodData[];
+  isPeriodDataLoading: boolean;
+  columns: ProjectionColumns;
+  granularity: PeriodGranularity;
+  onGranularityChange: (granularity: PeriodGranularity) => void;
+  showFullSchedule: boolean;
+  onShowFullScheduleChange: (show: boolean) => void;
+  expandedYears: number[];
+  onToggleYear: (year: number) => void;
+}
+
+export default function YearlyProjectionTable({
+  results,
+  inputs,
+  yearlyData,
+  periodData,
+  isPeriodDataLoading,
+  columns,
+  granularity,
+  onGranularityChange,
+  showFullSchedule,
+  onShowFullScheduleChange,
+  expandedYears,
+  onToggleYear,
+}: YearlyProjectionTableProps) {
+  const { toast } = useToast();
+
+  // Exports the years with the breakdown chosen, so it waits for the breakdown to be worked out.
+  const exportProjection = async (fileFormat: 'csv' | 'xlsx') => {
+    if (!inputs || isPeriodDataLoading) return;
+    const sheets = buildProjectionWorkbook({
+      title: `Investment Projection - ${calculationModeLabels[inputs.calculationMode]}`,
+      exportedAt: new Date(),
+      inputs: buildExportInputs(inputs),
+      summary: buildExportSummary(results),
+      yearlyData,
+      periodData,
+      periodLabel: granularity === 'monthly' ? 'Month' : 'Period',
+    });
+    const fileName = `investment-projection-${format(new Date(), 'yyyy-MM-dd')}`;
+    if (fileFormat === 'csv') {
+      downloadFile(toCsv(sheets, navigator.language), 'text/csv;charset=utf-8', `${fileName}.csv`);
+      return;
+    }
+    try {
+      downloadFile(await toXlsx(sheets), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', `${fileName}.xlsx`);
+    } catch (error) {
+      console.error("Excel export failed:", error);
+      toast({ title: "Export Error", description: "The Excel workbook could not be created. Please try again.", variant: "destructive" });
+    }
+  };
+
+  if (yearlyData.length === 0) {
+    return (
+      <Card className="shadow-2xl shadow-primary/20">
+        <CardHeader><CardTitle className="text-2xl font-headline text-primary">Yearly Projection</CardTitle></CardHeader>
+        <CardContent><p className="text-muted-foreground">No yearly data to display. Please ensure all inputs are valid and calculate.</p></CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-2xl shadow-primary/20">
+      <CardHeader>
+        <CardTitle className="text-2xl font-headline text-primary flex items-center">
+          <CalendarDays className="mr-2 h-7 w-7" /> Yearly Projection
+        </CardTitle>
+        <CardDescription>Expand a year to see it period by period.</CardDescription>
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Select value={granularity} onValueChange={(value) => onGranularityChange(value as PeriodGranularity)}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Period breakdown" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(periodGranularityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Switch id="show-full-schedule" checked={showFullSchedule} onCheckedChange={onShowFullScheduleChange} />
+            <Label htmlFor="show-full-schedule">Show full schedule</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => exportProjection('csv')} disabled={isPeriodDataLoading}>
+              <FileText className="mr-2 h-4 w-4" /> CSV
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => exportProjection('xlsx')} disabled={isPeriodDataLoading}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" /> Excel
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-primary">Year</TableHead>
+              {columns.rate && <TableHead className="text-primary">Rate</TableHead>}
+              <TableHead className="text-primary">Starting Balance</TableHead>
+              <TableHead className="text-primary">Contributions This Year</TableHead>
+              {columns.cashFlows && <TableHead className="text-primary">One-off Cash Flows</TableHead>}
+              {columns.withdrawals && <TableHead className="text-primary">Withdrawals This Year</TableHead>}
+              <TableHead className="text-primary">Interest Earned This Year</TableHead>
+              {columns.fees && <TableHead className="text-primary">Fees Paid</TableHead>}
+              {columns.taxes && <TableHead className="text-primary">Taxes Paid</TableHead>}
+              <TableHead className="text-primary">Ending Balance</TableHead>
+              {columns.realBalance && <TableHead className="text-primary">Ending Balance (Today&apos;s $)</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {yearlyData.map((data) => (
+              <Fragment key={data.year}>
+                <TableRow>
+                  <TableCell>
+                    {data.withdrawals === undefined ? (
+                      <button type="button" className="flex items-center hover:text-primary" onClick={() => onToggleYear(data.year)} aria-expanded={expandedYears.includes(data.year)}>
+                        {expandedYears.includes(data.year) ? <ChevronDown className="mr-1 h-4 w-4" /> : <ChevronRight className="mr-1 h-4 w-4" />}
+                        {data.year}
+                      </button>
+                    ) : data.year}
+                    {formatPeriodDates(data) && <div className="text-xs text-muted-foreground whitespace-nowrap">{formatPeriodDates(data)}</div>}
+                  </TableCell>
+                  {columns.rate && <TableCell>{formatPercentage(data.interestRate)}</TableCell>}
+                  <TableCell>{formatCurrency(data.startingBalance)}</TableCell>
+                  <TableCell>{formatCurrency(data.contributions)}</TableCell>
+                  {columns.cashFlows && <TableCell>{formatCashFlows(data)}</TableCell>}
+                  {columns.withdrawals && <TableCell>{data.withdrawals !== undefined ? formatCurrency(data.withdrawals) : '—'}</TableCell>}
+                  <TableCell>{formatCurrency(data.interestEarned)}</TableCell>
+                  {columns.fees && <TableCell>{formatCurrency(data.feesPaid)}</TableCell>}
+                  {columns.taxes && <TableCell>{formatCurrency(data.taxesPaid)}</TableCell>}
+                  <TableCell className="font-semibold text-primary">{formatCurrency(data.endingBalance)}</TableCell>
+                  {columns.realBalance && <TableCell>{formatCurrency(data.realEndingBalance)}</TableCell>}
+                </TableRow>
+                {expandedYears.includes(data.year) && periodData.filter(period => period.year === data.year).map((period) => (
+                  <TableRow key={`${period.year}-${period.period}`} className="bg-muted/30 text-xs text-muted-foreground">
+                    <TableCell className="py-2 pl-9 whitespace-nowrap">{formatPeriodLabel(period, granularity)}</TableCell>
+                    {columns.rate && <TableCell className="py-2" />}
+                    <TableCell className="py-2">{formatCurrency(period.startingBalance)}</TableCell>
+                    <TableCell className="py-2">{formatCurrency(period.contributions)}</TableCell>
+                    {columns.cashFlows && <TableCell className="py-2">{formatCashFlows(period)}</TableCell>}
+                    {columns.withdrawals && <TableCell className="py-2">—</TableCell>}
+                    <TableCell className="py-2">{formatCurrency(period.interestEarned)}</TableCell>
+                    {columns.fees && <TableCell className="py-2">{formatCurrency(period.feesPaid)}</TableCell>}
+                    {columns.taxes && <TableCell className="py-2">{formatCurrency(period.taxesPaid)}</TableCell>}
+                    <TableCell className="py-2">{formatCurrency(period.endingBalance)}</TableCell>
+                    {columns.realBalance && <TableCell className="py-2" />}
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import * as React from "react"
+
+import { toast } from "@/hooks/use-toast"
+import type { CalculationWorkerRequest, CalculationWorkerTasks } from "@/lib/engine/calculation.worker"
+
+/**
+ * Runs one kind of engine task in a Web Worker so that long projections do not freeze the page. The worker is kept
+ * between runs; a new run, or cancelling, stops the one still running, so only the latest run ever reports back.
+ */
+export function useCalculationWorker<Kind extends keyof CalculationWorkerTasks>(kind: Kind) {
+  const workerRef = React.useRef<Worker | null>(null)
+  const isBusyRef = React.useRef(false)
+  const [isRunning, setIsRunning] = React.useState(false)
+
+  const cancel = React.useCallback(() => {
+    if (isBusyRef.current) {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+    isBusyRef.current = false
+    setIsRunning(false)
+  }, [])
+
+  const run = React.useCallback((
+    request: CalculationWorkerTasks[Kind]["request"],
+    onDone: (response: CalculationWorkerTasks[Kind]["response"]) => void
+  ) => {
+    cancel()
+    const worker = workerRef.current ?? new Worker(new URL("../lib/engine/calculation.worker.ts", import.meta.url))
+    workerRef.current = worker
+    isBusyRef.current = true
+    setIsRunning(true)
+
+    worker.onmessage = (event: MessageEvent<CalculationWorkerTasks[Kind]["response"]>) => {
+      isBusyRef.current = false
+      setIsRunning(false)
+      onDone(event.data)
+    }
+    worker.onerror = (event) => {
+      console.warn("Calculation failed:", event.message)
+      workerRef.current = null
+      worker.terminate()
+      isBusyRef.current = false
+      setIsRunning(false)
+      toast({ title: "Calculation Error", description: "An error occurred during calculation. Please check your inputs or try different values.", variant: "destructive" })
+    }
+    worker.postMessage({ kind, request } as CalculationWorkerRequest)
+  }, [kind, cancel])
+
+  React.useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return { isRunning, run, cancel }
+}
@@ -0,0 +1,124 @@
+"use client"
+
+import * as React from "react"
+import { GoogleAuthProvider, onAuthStateChanged, signInWithPopup, signOut as firebaseSignOut, type User } from "firebase/auth"
+
+import { toast } from "@/hooks/use-toast"
+import {
+  createCloudScenario,
+  deleteCloudScenario,
+  isRevisionConflict,
+  subscribeToCloudScenarios,
+  updateCloudScenario,
+  type CloudScenario,
+  type CloudSyncStatus,
+} from "@/lib/cloud-scenarios"
+import { getFirebaseServices, isFirebaseConfigured } from "@/lib/firebase"
+import { duplicateSavedScenario, type SavedScenario } from "@/lib/scenario-library"
+
+const reportSyncError = (error: unknown) => {
+  console.warn("Cloud scenario sync failed:", error)
+  toast({
+    title: "Sync Error",
+    description: "A change to your saved scenarios could not be synced to your account.",
+    variant: "destructive",
+  })
+}
+
+/**
+ * Optional sign-in and the signed-in user's scenarios in Firestore. Changes show up at once and are synced in the
+ * background, including after working offline. An edit that loses to a newer change from another device is kept as a
+ * "conflict copy" next to the winning version rather than dropped.
+ */
+export function useCloudScenarios() {
+  const [user, setUser] = React.useState<User | null>(null)
+  const [scenarios, setScenarios] = React.useState<CloudScenario[]>([])
+  const [syncStatus, setSyncStatus] = React.useState<CloudSyncStatus>("synced")
+
+  React.useEffect(() => {
+    const services = getFirebaseServices()
+    if (!services) return
+    return onAuthStateChanged(services.auth, setUser)
+  }, [])
+
+  React.useEffect(() => {
+    const services = getFirebaseServices()
+    if (!services || !user) {
+      setScenarios([])
+      return
+    }
+    return subscribeToCloudScenarios(
+      services.firestore,
+      user.uid,
+      (cloudScenarios, status) => {
+        setScenarios(cloudScenarios)
+        setSyncStatus(status)
+      },
+      reportSyncError
+    )
+  }, [user])
+
+  const signIn = async () => {
+    const services = getFirebaseServices()
+    if (!services) return
+    try {
+      await signInWithPopup(services.auth, new GoogleAuthProvider())
+    } catch (error) {
+      if ((error as { code?: string }).code === "auth/popup-closed-by-user") return
+      console.warn("Sign-in failed:", error)
+      toast({ title: "Sign-in Error", description: "Could not sign you in. Please try again.", variant: "destructive" })
+    }
+  }
+
+  const signOut = async () => {
+    const services = getFirebaseServices()
+    if (services) await firebaseSignOut(services.auth)
+  }
+
+  // Resolves to whether the server accepted the scenario, which offline is only once the device reconnects.
+  const addScenario = async (scenario: SavedScenario): Promise<boolean> => {
+    const services = getFirebaseServices()
+    if (!services || !user) return false
+    try {
+      await createCloudScenario(services.firestore, user.uid, scenario)
+      return true
+    } catch (error) {
+      reportSyncError(error)
+      return false
+    }
+  }
+
+  const updateScenario = (scenario: CloudScenario) => {
+    const services = getFirebaseServices()
+    if (!services || !user) return
+    updateCloudScenario(services.firestore, user.uid, scenario).catch(async error => {
+      if (!(await isRevisionConflict(services.firestore, user.uid, scenario, error))) {
+        reportSyncError(error)
+        return
+      }
+      createCloudScenario(services.firestore, user.uid, duplicateSavedScenario(scenario, `${scenario.name} (conflict copy)`)).catch(reportSyncError)
+      toast({
+        title: "Scenario Changed Elsewhere",
+        description: `"${scenario.name}" was changed on another device. Your version was kept as a conflict copy.`,
+      })
+    })
+  }
+
+  const deleteScenario = (scenarioId: string) => {
+    const services = getFirebaseServices()
+    if (!services || !user) return
+    deleteCloudScenario(services.firestore, user.uid, scenarioId).catch(reportSyncError)
+  }
+
+  return {
+    isAvailable: isFirebaseConfigured,
+    user,
+    scenarios,
+    syncStatus,
+    signIn,
+    signOut,
+    addScenario,
+    updateScenario,
+    deleteScenario,
+  }
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import * as React from "react"
+
+import { generateInvestmentTips, type InvestmentTipsInput } from "@/ai/flows/generate-investment-tips"
+import { toast } from "@/hooks/use-toast"
+import type { CalculationResults, InvestmentFormData } from "@/types"
+
+export interface AiTip {
+  title: string
+  description: string
+}
+
+// The figures the tips are written from, or null when the calculation left one of them out or not a number.
+const toTipsInput = (inputs: InvestmentFormData, results: CalculationResults): InvestmentTipsInput | null => {
+  const { initialInvestment, contributionAmount, contributionFrequency, interestRate, investmentDuration, compoundingFrequency } = inputs
+  const { futureValue, totalInterest, totalContributions } = results
+  const figures = [initialInvestment, contributionAmount, interestRate, investmentDuration, futureValue, totalInterest, totalContributions]
+  if (figures.some(figure => figure == null || isNaN(figure))) return null
+  return {
+    initialInvestment: initialInvestment!,
+    contributionAmount: contributionAmount!,
+    contributionFrequency,
+    interestRate: interestRate!,
+    investmentDuration: investmentDuration!,
+    compoundingFrequency,
+    futureValue,
+    totalInterest,
+    totalContributions,
+  }
+}
+
+/**
+ * Fetches AI-written tips for a calculation. Fetching again, or clearing, drops the tips of the previous calculation,
+ * including ones still on their way.
+ */
+export function useInvestmentTips() {
+  const [tips, setTips] = React.useState<AiTip[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const latestRequestRef = React.useRef(0)
+
+  const clear = React.useCallback(() => {
+    latestRequestRef.current++
+    setTips([])
+    setIsLoading(false)
+  }, [])
+
+  const fetchTips = React.useCallback(async (inputs: InvestmentFormData, results: CalculationResults) => {
+    clear()
+    const tipsInput = toTipsInput(inputs, results)
+    if (!tipsInput) return
+    const request = latestRequestRef.current
+    setIsLoading(true)
+    try {
+      const tipsResult = await generateInvestmentTips(tipsInput)
+      if (request !== latestRequestRef.current) return
+      if (tipsResult.error) {
+        toast({ title: "AI Tips Error", description: tipsResult.error, variant: "destructive" })
+      } else if (tipsResult.tips && tipsResult.tips.length > 0) {
+        setTips(tipsResult.tips)
+      } else {
+        toast({ title: "AI Tips", description: "No specific tips were generated for this scenario, or the AI service is temporarily unavailable." })
+      }
+    } catch (error) {
+      if (request !== latestRequestRef.current) return
+      let clientErrorMsg = "Could not connect to the AI service. Please check your connection and try again."
+      if (error instanceof Error && error.message) {
+        clientErrorMsg = error.message.toLowerCase().includes("failed to fetch")
+          ? "Network error: Failed to fetch AI tips. Please check your internet connection."
+          : "An unexpected error occurred while trying to get AI tips."
+      }
+      toast({ title: "AI Service Error", description: clientErrorMsg, variant: "destructive" })
+    } finally {
+      if (request === latestRequestRef.current) setIsLoading(false)
+    }
+  }, [clear])
+
+  return { tips, isLoading, fetchTips, clear }
+}
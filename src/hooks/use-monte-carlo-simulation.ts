@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+
+import { toast } from "@/hooks/use-toast"
+import type { MonteCarloRequest } from "@/lib/engine"
+import type { MonteCarloWorkerMessage } from "@/lib/engine/monte-carlo.worker"
+import type { MonteCarloSummary } from "@/types"
+
+export interface MonteCarloProgress {
+  completedPaths: number
+  totalPaths: number
+}
+
+/**
+ * Runs Monte Carlo simulations in a Web Worker so that thousands of paths do not freeze the page. Starting a new
+ * simulation, or cancelling, stops the one still running; only the latest simulation ever reports back.
+ */
+export function useMonteCarloSimulation() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const [progress, setProgress] = React.useState<MonteCarloProgress | null>(null)
+
+  const cancel = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }, [])
+
+  const run = React.useCallback((request: MonteCarloRequest, onDone: (summary: MonteCarloSummary) => void) => {
+    workerRef.current?.terminate()
+    const worker = new Worker(new URL("../lib/engine/monte-carlo.worker.ts", import.meta.url))
+    workerRef.current = worker
+    const totalPaths = request.options.simulationCount
+    setProgress({ completedPaths: 0, totalPaths })
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerMessage>) => {
+      if (workerRef.current !== worker) return
+      if (event.data.type === "progress") {
+        setProgress({ completedPaths: event.data.completedPaths, totalPaths })
+        return
+      }
+      worker.terminate()
+      workerRef.current = null
+      setProgress(null)
+      onDone(event.data.summary)
+    }
+    worker.onerror = (event) => {
+      console.warn("Monte Carlo simulation failed:", event.message)
+      if (workerRef.current !== worker) return
+      cancel()
+      toast({ title: "Simulation Error", description: "The Monte Carlo simulation could not be completed.", variant: "destructive" })
+    }
+    worker.postMessage(request)
+  }, [cancel])
+
+  React.useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return { progress, run, cancel }
+}
@@ -0,0 +1,102 @@
+import { format, parseISO } from 'date-fns';
+import type { CalculationResults, InvestmentFormData } from '@/types';
+import type { ComparableResultField } from '@/lib/engine';
+import type { ExportSummaryRow } from '@/lib/export';
+import {
+  accountTypeLabels,
+  calculationModeLabels,
+  cashFlowEventTypeLabels,
+  comparableResultDisplay,
+  dayCountConventionLabels,
+  formatCurrency,
+  formatOptionLabel,
+  formatPercentage,
+  returnDistributionLabels,
+  withdrawalStrategyLabels,
+  type ResultValueKind,
+} from '@/lib/format';
+
+// The header blocks shared by the spreadsheet export and the report, and the download of the files they end up in.
+
+const resultValueExportFormats: Record<ResultValueKind, ExportSummaryRow['format']> = {
+  currency: 'currency',
+  percentage: 'percentage',
+  years: 'number',
+  year: 'year',
+};
+
+// The inputs as entered, for the header block of an export; empty inputs and switched-off features are left out.
+export const buildExportInputs = (inputs: InvestmentFormData): ExportSummaryRow[] => {
+  const taxed = inputs.accountType !== 'taxFree';
+  const withdrawing = inputs.withdrawalStrategy !== 'none';
+  const rows: (ExportSummaryRow | false)[] = [
+    { label: 'Calculation', value: calculationModeLabels[inputs.calculationMode], format: 'text' },
+    inputs.calculationMode !== 'futureValue' && { label: 'Target Future Value', value: inputs.targetFutureValue ?? null, format: 'currency' },
+    { label: 'Initial Investment', value: inputs.initialInvestment ?? null, format: 'currency' },
+    { label: 'Contribution Amount', value: inputs.contributionAmount ?? null, format: 'currency' },
+    { label: 'Contribution Frequency', value: inputs.contributionFrequency ? formatOptionLabel(inputs.contributionFrequency) : null, format: 'text' },
+    { label: 'Contribution Timing', value: inputs.contributionTiming === 'beginning' ? 'Beginning of Period' : 'End of Period', format: 'text' },
+    { label: 'Contribution Increase (% per Year)', value: inputs.contributionIncreaseRate ?? null, format: 'percentage' },
+    { label: 'Contribution Increase ($ per Year)', value: inputs.contributionIncreaseAmount ?? null, format: 'currency' },
+    { label: 'Interest Rate', value: inputs.interestRate ?? null, format: 'percentage' },
+    ...inputs.rateSchedule.map((entry): ExportSummaryRow => ({ label: `Interest Rate from Year ${entry.startYear}`, value: entry.rate, format: 'percentage' })),
+    { label: 'Compounding Frequency', value: inputs.compoundingFrequency ? formatOptionLabel(inputs.compoundingFrequency) : null, format: 'text' },
+    { label: 'Investment Duration (Years)', value: inputs.investmentDuration ?? null, format: 'number' },
+    { label: 'Start Date', value: inputs.startDate ?? null, format: 'date' },
+    !!inputs.startDate && { label: 'Day Count Convention', value: dayCountConventionLabels[inputs.dayCountConvention], format: 'text' },
+    ...inputs.cashFlowEvents.map((event): ExportSummaryRow => ({
+      label: `${cashFlowEventTypeLabels[event.type]} (Year ${event.year}, Month ${event.month})`,
+      value: event.type === 'pauseContributions' ? `${event.durationMonths ?? 0} months` : event.amount ?? null,
+      format: event.type === 'pauseContributions' ? 'text' : 'currency',
+    })),
+    { label: 'Inflation Rate', value: inputs.inflationRate ?? null, format: 'percentage' },
+    { label: 'Account Type', value: accountTypeLabels[inputs.accountType], format: 'text' },
+    taxed && { label: 'Marginal Income Tax Rate', value: inputs.marginalIncomeTaxRate ?? null, format: 'percentage' },
+    inputs.accountType === 'taxable' && { label: 'Capital Gains Tax Rate', value: inputs.capitalGainsTaxRate ?? null, format: 'percentage' },
+    inputs.accountType === 'taxable' && { label: 'Dividend Tax Rate', value: inputs.dividendTaxRate ?? null, format: 'percentage' },
+    inputs.accountType === 'taxable' && { label: 'Dividend Yield', value: inputs.dividendYield ?? null, format: 'percentage' },
+    { label: 'Expense Ratio', value: inputs.expenseRatio ?? null, format: 'percentage' },
+    { label: 'Advisory Fee', value: inputs.advisoryFeeRate ?? null, format: 'percentage' },
+    { label: 'Flat Annual Fee', value: inputs.flatAnnualFee ?? null, format: 'currency' },
+    { label: 'Withdrawal Strategy', value: withdrawalStrategyLabels[inputs.withdrawalStrategy], format: 'text' },
+    withdrawing && inputs.withdrawalStrategy !== 'fixedPercentage' && { label: 'Withdrawal Amount', value: inputs.withdrawalAmount ?? null, format: 'currency' },
+    withdrawing && inputs.withdrawalStrategy === 'fixedPercentage' && { label: 'Withdrawal Rate', value: inputs.withdrawalRate ?? null, format: 'percentage' },
+    withdrawing && { label: 'Withdrawal Period (Years)', value: inputs.withdrawalDuration ?? null, format: 'number' },
+    inputs.monteCarloEnabled && { label: 'Return Volatility', value: inputs.returnVolatility ?? null, format: 'percentage' },
+    inputs.monteCarloEnabled && { label: 'Return Distribution', value: returnDistributionLabels[inputs.returnDistribution], format: 'text' },
+    inputs.monteCarloEnabled && { label: 'Simulations', value: inputs.simulationCount ?? null, format: 'number' },
+    inputs.monteCarloEnabled && { label: 'Random Seed', value: inputs.simulationSeed ?? null, format: 'number' },
+    inputs.backtestEnabled && { label: 'Stock Allocation', value: inputs.stockAllocation ?? null, format: 'percentage' },
+    inputs.backtestEnabled && { label: 'Bond Allocation', value: inputs.bondAllocation ?? null, format: 'percentage' },
+  ];
+  return rows.filter((row): row is ExportSummaryRow => !!row && row.value !== null);
+};
+
+// The results that the calculation produced, in the order of the results summary.
+export const buildExportSummary = (results: CalculationResults): ExportSummaryRow[] =>
+  (Object.keys(comparableResultDisplay) as ComparableResultField[])
+    .filter(field => results[field] !== undefined && results[field] !== null)
+    .map(field => ({
+      label: comparableResultDisplay[field].label,
+      value: results[field]!,
+      format: resultValueExportFormats[comparableResultDisplay[field].kind],
+    }));
+
+export const formatExportValue = ({ value, format: cellFormat }: ExportSummaryRow) => {
+  if (typeof value === 'string') return cellFormat === 'date' ? format(parseISO(value), 'MMM d, yyyy') : value;
+  switch (cellFormat) {
+    case 'currency': return formatCurrency(value);
+    case 'percentage': return formatPercentage(value);
+    case 'year': return `Year ${value}`;
+    default: return String(value);
+  }
+};
+
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,100 @@
+import { readFileSync } from 'node:fs';
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from '@firebase/rules-unit-testing';
+import { deleteApp, initializeApp, type FirebaseApp } from 'firebase/app';
+import { connectFirestoreEmulator, deleteDoc, doc, getDoc, getFirestore, setDoc, type Firestore } from 'firebase/firestore';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { runCalculation } from '@/lib/engine';
+import { baseScenario } from '@/lib/engine/test-fixtures';
+import { createCloudScenario, isRevisionConflict, updateCloudScenario } from './cloud-scenarios';
+import { createSavedScenario, renameSavedScenario } from './scenario-library';
+
+// Runs firestore.rules in the Firestore emulator, through `npm run test:rules`; skipped when no emulator is running.
+// Each user gets their own app connected to the emulator with a mock sign-in token, so the code under test is given
+// the same modular Firestore instance it gets in the browser.
+
+const emulatorUnavailable = 'No Firestore emulator is running (FIRESTORE_EMULATOR_HOST is unset); run `npm run test:rules`.';
+
+const scenario = createSavedScenario('Retirement', baseScenario(), runCalculation(baseScenario()).results!);
+const scenarioPath = `users/alice/scenarios/${scenario.id}`;
+
+describe('firestore.rules', () => {
+  let environment: RulesTestEnvironment | null = null;
+  const apps = new Map<string, FirebaseApp>();
+  const firestoreOf = (uid: string | null): Firestore => {
+    const key = uid ?? 'signed-out';
+    const existing = apps.get(key);
+    if (existing) return getFirestore(existing);
+    const { host, port } = environment!.emulators.firestore!;
+    const app = initializeApp({ projectId: environment!.projectId }, key);
+    const firestore = getFirestore(app);
+    connectFirestoreEmulator(firestore, host, port, uid ? { mockUserToken: { sub: uid } } : {});
+    apps.set(key, app);
+    return firestore;
+  };
+
+  beforeAll(async () => {
+    if (!process.env.FIRESTORE_EMULATOR_HOST) return;
+    environment = await initializeTestEnvironment({
+      projectId: 'demo-app',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+  beforeEach(async ({ skip }) => {
+    skip(!environment, emulatorUnavailable);
+    await environment!.clearFirestore();
+  });
+  afterAll(async () => {
+    await Promise.all([...apps.values()].map(deleteApp));
+    await environment?.cleanup();
+  });
+
+  it('lets the owner create a scenario at revision 1 only', async () => {
+    const alice = firestoreOf('alice');
+
+    await assertFails(updateCloudScenario(alice, 'alice', { ...scenario, revision: 1 }));
+    await assertSucceeds(createCloudScenario(alice, 'alice', scenario));
+    expect((await getDoc(doc(alice, scenarioPath))).get('revision')).toBe(1);
+  });
+
+  it('accepts an update only at the stored revision + 1', async () => {
+    const alice = firestoreOf('alice');
+    await createCloudScenario(alice, 'alice', scenario);
+
+    await assertSucceeds(updateCloudScenario(alice, 'alice', { ...renameSavedScenario(scenario, 'Renamed'), revision: 1 }));
+    await assertFails(updateCloudScenario(alice, 'alice', { ...scenario, revision: 1 }));
+    await assertFails(updateCloudScenario(alice, 'alice', { ...scenario, revision: 3 }));
+    expect((await getDoc(doc(alice, scenarioPath))).get('name')).toBe('Renamed');
+  });
+
+  it('rejects a document that does not match the schema', async () => {
+    const alice = firestoreOf('alice');
+
+    await assertFails(setDoc(doc(alice, scenarioPath), { revision: 1, name: 'Retirement' }));
+    await assertFails(createCloudScenario(alice, 'alice', { ...scenario, name: '' }));
+  });
+
+  it('keeps each user to their own scenarios', async () => {
+    await createCloudScenario(firestoreOf('alice'), 'alice', scenario);
+
+    for (const firestore of [firestoreOf('bob'), firestoreOf(null)]) {
+      await assertFails(getDoc(doc(firestore, scenarioPath)));
+      await assertFails(deleteDoc(doc(firestore, scenarioPath)));
+      await assertFails(createCloudScenario(firestore, 'alice', createSavedScenario('Intruder', scenario.inputs, scenario.results)));
+    }
+    await assertSucceeds(deleteDoc(doc(firestoreOf('alice'), scenarioPath)));
+  });
+
+  it('tells a stale revision apart from other rejected updates', async () => {
+    const alice = firestoreOf('alice');
+    await createCloudScenario(alice, 'alice', scenario);
+    await updateCloudScenario(alice, 'alice', { ...scenario, revision: 1 });
+
+    const stale = { ...scenario, revision: 1 };
+    const staleError = await updateCloudScenario(alice, 'alice', stale).catch(error => error);
+    expect(await isRevisionConflict(alice, 'alice', stale, staleError)).toBe(true);
+
+    const invalid = { ...scenario, name: '', revision: 2 };
+    const invalidError = await updateCloudScenario(alice, 'alice', invalid).catch(error => error);
+    expect(await isRevisionConflict(alice, 'alice', invalid, invalidError)).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocFromServer,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  type Firestore,
+  type FirestoreError,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { SCENARIO_LIBRARY_VERSION, SavedScenarioSchema, type SavedScenario } from './scenario-library';
+
+// A signed-in user's scenarios live in `users/{uid}/scenarios/{scenarioId}`. Every write carries the next revision
+// number, and the security rules (firestore.rules) only accept an update whose revision follows the stored one. An
+// edit made from an out-of-date copy, e.g. on a device that was offline while another device changed the scenario,
+// is therefore rejected when it reaches the server instead of silently overwriting the newer version.
+
+export interface CloudScenario extends SavedScenario {
+  revision: number;
+}
+
+// 'pending': changes made here have not reached the server yet; 'offline': showing the cached copy.
+export type CloudSyncStatus = 'synced' | 'pending' | 'offline';
+
+interface CloudScenarioDocument {
+  version: number;
+  revision: number;
+  name: string;
+  inputs: SavedScenario['inputs'];
+  // Results hold nested arrays and optional fields Firestore cannot store as they are, and are only ever read whole.
+  resultsJson: string;
+  savedAt: string;
+  updatedAt: string;
+}
+
+const scenariosCollection = (firestore: Firestore, uid: string) => collection(firestore, 'users', uid, 'scenarios');
+
+const toDocument = (scenario: SavedScenario, revision: number): CloudScenarioDocument => ({
+  version: SCENARIO_LIBRARY_VERSION,
+  revision,
+  name: scenario.name,
+  inputs: scenario.inputs,
+  resultsJson: JSON.stringify(scenario.results),
+  savedAt: scenario.savedAt,
+  updatedAt: scenario.updatedAt,
+});
+
+const fromDocument = (snapshot: QueryDocumentSnapshot): CloudScenario | null => {
+  const data = snapshot.data() as Partial<CloudScenarioDocument>;
+  if (typeof data.version !== 'number' || data.version > SCENARIO_LIBRARY_VERSION || typeof data.revision !== 'number') {
+    return null;
+  }
+  try {
+    const result = SavedScenarioSchema.safeParse({
+      id: snapshot.id,
+      name: data.name,
+      inputs: data.inputs,
+      results: JSON.parse(data.resultsJson ?? ''),
+      savedAt: data.savedAt,
+      updatedAt: data.updatedAt,
+    });
+    return result.success ? { ...result.data, revision: data.revision } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Follows the user's scenarios, oldest first, including changes made offline that have not been synced yet.
+ * Documents that fail validation, or were written by a newer version of the calculator, are left out.
+ */
+export const subscribeToCloudScenarios = (
+  firestore: Firestore,
+  uid: string,
+  onChange: (scenarios: CloudScenario[], status: CloudSyncStatus) => void,
+  onError: (error: FirestoreError) => void
+): Unsubscribe =>
+  onSnapshot(
+    query(scenariosCollection(firestore, uid), orderBy('savedAt')),
+    { includeMetadataChanges: true },
+    snapshot => {
+      const scenarios = snapshot.docs.flatMap(document => {
+        const scenario = fromDocument(document);
+        if (!scenario) console.warn("Skipping an unreadable cloud scenario:", document.id);
+        return scenario ? [scenario] : [];
+      });
+      const status: CloudSyncStatus = snapshot.metadata.hasPendingWrites ? 'pending' : snapshot.metadata.fromCache ? 'offline' : 'synced';
+      onChange(scenarios, status);
+    },
+    onError
+  );
+
+// The returned promises settle once the server has accepted or rejected the write, which may be long after the change
+// shows up locally when offline.
+
+export const createCloudScenario = (firestore: Firestore, uid: string, scenario: SavedScenario): Promise<void> =>
+  setDoc(doc(scenariosCollection(firestore, uid), scenario.id), toDocument(scenario, 1));
+
+export const updateCloudScenario = (firestore: Firestore, uid: string, scenario: CloudScenario): Promise<void> =>
+  setDoc(doc(scenariosCollection(firestore, uid), scenario.id), toDocument(scenario, scenario.revision + 1));
+
+export const deleteCloudScenario = (firestore: Firestore, uid: string, scenarioId: string): Promise<void> =>
+  deleteDoc(doc(scenariosCollection(firestore, uid), scenarioId));
+
+/**
+ * Whether a failed update lost to a newer change made elsewhere. The rules reject a stale revision as a plain
+ * permission error, as they do an invalid document, so the stored document is read back: it is a conflict only if its
+ * revision has moved on from the one the edit was based on, or it has been deleted in the meantime.
+ */
+export const isRevisionConflict = async (firestore: Firestore, uid: string, scenario: CloudScenario, error: unknown): Promise<boolean> => {
+  if (typeof error !== 'object' || error === null || (error as FirestoreError).code !== 'permission-denied') return false;
+  try {
+    const stored = await getDocFromServer(doc(scenariosCollection(firestore, uid), scenario.id));
+    return !stored.exists() || stored.get('revision') !== scenario.revision;
+  } catch {
+    return false;
+  }
+};
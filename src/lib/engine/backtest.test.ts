@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { runHistoricalBacktest } from './backtest';
+import { historicalReturns } from './data/historical-returns';
+import { baseParams } from './test-fixtures';
+
+const firstYear = historicalReturns[0].year;
+const lastYear = historicalReturns[historicalReturns.length - 1].year;
+const allStocks = { stockAllocation: 100, bondAllocation: 0 };
+const lumpSum = baseParams({ contributionAmount: 0, compoundingFrequency: 'annually' });
+
+describe('runHistoricalBacktest', () => {
+  it('runs one window for every start year whose whole duration is in the data', () => {
+    const backtest = runHistoricalBacktest(lumpSum, allStocks)!;
+
+    expect(backtest.firstStartYear).toBe(firstYear);
+    expect(backtest.lastStartYear).toBe(lastYear - 9);
+    expect(backtest.outcomesByStartYear.map(row => row.year)).toEqual(Array.from({ length: lastYear - 9 - firstYear + 1 }, (_, index) => firstYear + index));
+  });
+
+  it('earns each calendar year\'s return within a window', () => {
+    const backtest = runHistoricalBacktest({ ...lumpSum, investmentDuration: 2 }, allStocks)!;
+
+    backtest.outcomesByStartYear.forEach((outcome, index) => {
+      const [first, second] = historicalReturns.slice(index, index + 2);
+      expect(outcome.endingBalance).toBeCloseTo(10000 * (1 + first.stocks / 100) * (1 + second.stocks / 100), 1);
+    });
+  });
+
+  it('weights the returns by the allocation, with the rest in cash', () => {
+    const backtest = runHistoricalBacktest({ ...lumpSum, investmentDuration: 1 }, { stockAllocation: 60, bondAllocation: 30 })!;
+    const [{ stocks, bonds, cash }] = historicalReturns;
+
+    expect(backtest.allocation).toEqual({ stocks: 60, bonds: 30, cash: 10 });
+    expect(backtest.outcomesByStartYear[0].endingBalance).toBeCloseTo(10000 * (1 + (0.6 * stocks + 0.3 * bonds + 0.1 * cash) / 100), 1);
+  });
+
+  it('deflates by each year\'s actual inflation', () => {
+    const backtest = runHistoricalBacktest({ ...lumpSum, investmentDuration: 1 }, allStocks)!;
+
+    expect(backtest.outcomesByStartYear[0].realEndingBalance).toBeCloseTo(backtest.outcomesByStartYear[0].endingBalance / (1 + historicalReturns[0].inflation / 100), 6);
+  });
+
+  it('counts a partial final year as a whole year of data', () => {
+    expect(runHistoricalBacktest({ ...lumpSum, investmentDuration: 9.5 }, allStocks)!.lastStartYear).toBe(lastYear - 9);
+  });
+
+  it('ranks the outcomes and keeps the path of the worst start year', () => {
+    const backtest = runHistoricalBacktest(baseParams(), allStocks)!;
+    const endingBalances = backtest.outcomesByStartYear.map(row => row.endingBalance);
+
+    expect(backtest.worst.futureValue).toBe(Math.min(...endingBalances));
+    expect(backtest.best.futureValue).toBe(Math.max(...endingBalances));
+    expect(backtest.median.futureValue).toBeGreaterThanOrEqual(backtest.worst.futureValue);
+    expect(backtest.median.futureValue).toBeLessThanOrEqual(backtest.best.futureValue);
+    expect(backtest.worstPath).toHaveLength(10);
+    expect(backtest.worstPath[9].endingBalance).toBe(backtest.worst.futureValue);
+  });
+
+  it('runs a single window when the duration covers all the data, and none when it is longer', () => {
+    const years = historicalReturns.length;
+
+    expect(runHistoricalBacktest({ ...lumpSum, investmentDuration: years }, allStocks)).toMatchObject({ firstStartYear: firstYear, lastStartYear: firstYear });
+    expect(runHistoricalBacktest({ ...lumpSum, investmentDuration: years + 1 }, allStocks)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { BacktestOutcome, BacktestSummary, YearlyData } from '@/types';
+import { historicalReturns } from './data/historical-returns';
+import { createYearlyRatesProjection } from './projection';
+import type { BacktestAllocation, ProjectionOptions, ProjectionParams } from './types';
+
+// Every start year is a full projection, so the runs use floats; outcomes are only compared and summarized.
+const RUN_PROJECTION_OPTIONS: ProjectionOptions = { arithmetic: 'float', roundToCents: true };
+
+const sumOf = (rows: YearlyData[], pick: (row: YearlyData) => number | undefined) =>
+  rows.reduce((total, row) => total + (pick(row) ?? 0), 0);
+
+// Collapses one historical run into a single row keyed by its calendar start year.
+const summarizeRun = (startYear: number, initialInvestment: number, path: YearlyData[]): YearlyData => {
+  const lastRow = path[path.length - 1];
+  return {
+    year: startYear,
+    startingBalance: initialInvestment,
+    interestEarned: sumOf(path, row => row.interestEarned),
+    contributions: sumOf(path, row => row.contributions),
+    endingBalance: lastRow?.endingBalance ?? initialInvestment,
+    realContributions: sumOf(path, row => row.realContributions),
+    realEndingBalance: lastRow?.realEndingBalance ?? initialInvestment,
+    taxesPaid: sumOf(path, row => row.taxesPaid),
+    feesPaid: sumOf(path, row => row.feesPaid),
+  };
+};
+
+/**
+ * Replays the contribution plan against the bundled historical returns for every start year with enough data to cover
+ * the whole duration. Each year earns the allocation-weighted return of stocks, bonds and cash for that calendar year,
+ * and real values are deflated by that year's actual CPI instead of `inflationRate`. Returns null when the duration is
+ * longer than the data.
+ */
+export const runHistoricalBacktest = (
+  params: ProjectionParams,
+  { stockAllocation, bondAllocation }: BacktestAllocation
+): BacktestSummary | null => {
+  const cashAllocation = 100 - stockAllocation - bondAllocation;
+  const yearCount = Math.ceil(params.investmentDuration);
+  const portfolioReturns = historicalReturns.map(({ stocks, bonds, cash }) =>
+    (stocks * stockAllocation + bonds * bondAllocation + cash * cashAllocation) / 100);
+  const inflationRates = historicalReturns.map(({ inflation }) => inflation);
+  const runCount = historicalReturns.length - yearCount + 1;
+  if (runCount < 1) return null;
+
+  const projectRun = createYearlyRatesProjection(params, RUN_PROJECTION_OPTIONS);
+  const paths = Array.from({ length: runCount }, (_, startIndex) =>
+    projectRun(portfolioReturns.slice(startIndex, startIndex + yearCount), inflationRates.slice(startIndex, startIndex + yearCount)));
+  const outcomesByStartYear = paths.map((path, startIndex) =>
+    summarizeRun(historicalReturns[startIndex].year, params.initialInvestment, path));
+
+  const ranked: BacktestOutcome[] = outcomesByStartYear
+    .map(row => ({ startYear: row.year, futureValue: row.endingBalance }))
+    .sort((a, b) => a.futureValue - b.futureValue);
+  const worst = ranked[0];
+
+  return {
+    firstStartYear: historicalReturns[0].year,
+    lastStartYear: historicalReturns[runCount - 1].year,
+    allocation: { stocks: stockAllocation, bonds: bondAllocation, cash: cashAllocation },
+    outcomesByStartYear,
+    best: ranked[ranked.length - 1],
+    worst,
+    median: ranked[Math.floor((ranked.length - 1) / 2)],
+    worstPath: paths[worst.startYear - historicalReturns[0].year],
+  };
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { runCalculation } from './calculate';
+import { calculateFullProjection } from './projection';
+import { baseScenario } from './test-fixtures';
+
+describe('runCalculation', () => {
+  it('matches the closed-form future value of an ordinary annuity', () => {
+    const monthlyRate = 0.05 / 12;
+    const growth = (1 + monthlyRate) ** 120;
+    const { results, warnings } = runCalculation(baseScenario());
+
+    expect(warnings).toEqual([]);
+    expect(results?.futureValue).toBeCloseTo(10000 * growth + (100 * (growth - 1)) / monthlyRate, 1);
+    expect(results?.totalContributions).toBe(10000 + 100 * 120);
+  });
+
+  it('reports missing inputs as warnings instead of throwing', () => {
+    const outcome = runCalculation(baseScenario({ interestRate: null }));
+
+    expect(outcome.results).toBeNull();
+    expect(outcome.warnings).toHaveLength(1);
+    expect(outcome.warnings[0]).toMatchObject({ code: 'missing-input', severity: 'error' });
+    expect(outcome.warnings[0].fieldErrors).toHaveProperty('interestRate');
+  });
+
+  it.each([
+    ['accumulating', baseScenario({ interestRate: 10000, compoundingFrequency: 'daily', investmentDuration: 100 })],
+    ['withdrawing', baseScenario({ interestRate: 10000, compoundingFrequency: 'annually', investmentDuration: 100, withdrawalStrategy: 'fixedAmount', withdrawalAmount: 1000, withdrawalDuration: 100 })],
+  ])('reports a balance too large to calculate as an error while %s', (_, scenario) => {
+    const outcome = runCalculation(scenario);
+
+    expect(outcome.results).toBeNull();
+    expect(outcome.warnings).toContainEqual(expect.objectContaining({ code: 'balance-overflow', severity: 'error' }));
+  });
+
+  it('rejects a non-positive duration when solving', () => {
+    const outcome = runCalculation(baseScenario({ calculationMode: 'calculateMonthlyContribution', investmentDuration: 0, targetFutureValue: 50000 }));
+
+    expect(outcome.results).toBeNull();
+    expect(outcome.warnings[0].code).toBe('non-positive-duration');
+  });
+
+  it.each([
+    ['calculateInitialInvestment', 'initialInvestment'],
+    ['calculateMonthlyContribution', 'contributionAmount'],
+    ['calculateInterestRate', 'interestRate'],
+    ['calculateInvestmentDuration', 'investmentDuration'],
+  ] as const)('%s reaches the target with the solved %s', (calculationMode, solvedField) => {
+    const { results, resolvedParams } = runCalculation(baseScenario({ calculationMode, [solvedField]: null, targetFutureValue: 50000 }));
+
+    expect(resolvedParams?.[solvedField]).not.toBeNull();
+    expect(results?.originalTargetFutureValue).toBe(50000);
+    expect(results!.totalContributions + results!.totalInterest).toBeGreaterThanOrEqual(49999.99);
+  });
+
+  it.each([
+    ['calculateInitialInvestment', 'initialInvestment', 50000],
+    ['calculateMonthlyContribution', 'contributionAmount', 50000],
+    ['calculateInterestRate', 'interestRate', 50000],
+    ['calculateInvestmentDuration', 'investmentDuration', 50000],
+    ['calculateMonthlyContribution', 'contributionAmount', 5000],
+  ] as const)('%s reports the future value of the projection, which reconciles with its totals (target %s)', (calculationMode, solvedField, targetFutureValue) => {
+    const scenario = baseScenario({ calculationMode, [solvedField]: null, targetFutureValue, cashFlowEvents: [{ type: 'withdrawal', year: 3, month: 6, amount: 1000 }] });
+    const { results, yearlyData } = runCalculation(scenario);
+    const cents = (value: number) => Math.round(value * 100);
+
+    expect(results!.futureValue).toBe(yearlyData[yearlyData.length - 1].endingBalance);
+    expect(cents(results!.futureValue)).toBe(cents(results!.totalContributions) + cents(results!.totalInterest) - cents(results!.totalEventWithdrawals!));
+    expect(results!.originalTargetFutureValue).toBe(targetFutureValue);
+  });
+
+  it.each([
+    ['calculateInitialInvestment', 'initialInvestment'],
+    ['calculateMonthlyContribution', 'contributionAmount'],
+    ['calculateInterestRate', 'interestRate'],
+    ['calculateInvestmentDuration', 'investmentDuration'],
+  ] as const)('%s solves for deposits made at the start of each period', (calculationMode, solvedField) => {
+    const { results, resolvedParams } = runCalculation(baseScenario({ calculationMode, [solvedField]: null, targetFutureValue: 50000, contributionTiming: 'beginning' }));
+
+    expect(results!.futureValue).toBeGreaterThanOrEqual(50000);
+    // The same solved value falls short with end-of-period deposits, so the solver must have counted the extra interest.
+    expect(calculateFullProjection({ ...resolvedParams!, contributionTiming: 'end' }).futureValue).toBeLessThan(50000);
+  });
+
+  it.each([
+    ['calculateInitialInvestment', 'initialInvestment', 'monthly'],
+    ['calculateMonthlyContribution', 'contributionAmount', 'monthly'],
+    ['calculateInterestRate', 'interestRate', 'monthly'],
+    ['calculateInvestmentDuration', 'investmentDuration', 'monthly'],
+    ['calculateMonthlyContribution', 'contributionAmount', 'continuously'],
+    ['calculateInvestmentDuration', 'investmentDuration', 'continuously'],
+  ] as const)('%s solves for %s under continuous compounding with %s contributions', (calculationMode, solvedField, contributionFrequency) => {
+    const { results, warnings } = runCalculation(baseScenario({ calculationMode, [solvedField]: null, targetFutureValue: 50000, compoundingFrequency: 'continuously', contributionFrequency }));
+
+    expect(warnings.filter(warning => warning.severity === 'error')).toEqual([]);
+    expect(results!.futureValue).toBeGreaterThanOrEqual(50000);
+    expect(results!.futureValue).toBeLessThan(50100);
+  });
+
+  it.each([
+    ['taxable', 10470, 10470 - 0.15 * 300],
+    ['taxDeferred', 10500, 10500 * 0.76],
+    ['taxFree', 10500, 10500],
+  ] as const)('reports the after-tax future value of a %s account', (accountType, futureValue, afterTaxFutureValue) => {
+    const { results } = runCalculation(baseScenario({
+      contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 1, accountType,
+      marginalIncomeTaxRate: 24, capitalGainsTaxRate: 15, dividendTaxRate: 15, dividendYield: 2,
+    }));
+
+    expect(results!.futureValue).toBe(futureValue);
+    expect(results!.afterTaxFutureValue).toBeCloseTo(afterTaxFutureValue, 2);
+  });
+
+  it('reports the cost of fees against the same scenario without them', () => {
+    const { results } = runCalculation(baseScenario({ expenseRatio: 0.5, flatAnnualFee: 25 }));
+    const withoutFees = runCalculation(baseScenario()).results!;
+
+    expect(results!.costOfFees).toBeCloseTo(withoutFees.futureValue - results!.futureValue, 6);
+    expect(results!.costOfFees).toBeGreaterThan(results!.totalFeesPaid!);
+  });
+
+  it('reads the rate schedule in year order, whatever order it was entered in', () => {
+    const sorted = runCalculation(baseScenario({ rateSchedule: [{ startYear: 3, rate: 8 }, { startYear: 6, rate: 2 }] }));
+    const unsorted = runCalculation(baseScenario({ rateSchedule: [{ startYear: 6, rate: 2 }, { startYear: 3, rate: 8 }] }));
+
+    expect(unsorted.results!.futureValue).toBe(sorted.results!.futureValue);
+    expect(unsorted.yearlyData.map(row => row.interestRate)).toEqual([5, 5, 8, 8, 8, 2, 2, 2, 2, 2]);
+  });
+
+  it('rejects two rate changes in the same year', () => {
+    const outcome = runCalculation(baseScenario({ rateSchedule: [{ startYear: 3, rate: 8 }, { startYear: 3, rate: 2 }] }));
+
+    expect(outcome.results).toBeNull();
+    expect(outcome.warnings[0]).toMatchObject({ code: 'duplicate-rate-change', severity: 'error' });
+  });
+});
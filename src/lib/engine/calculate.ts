@@ -0,0 +1,379 @@
+import { isValid, parseISO } from 'date-fns';
+import type { CalculationResults } from '@/types';
+import { runHistoricalBacktest } from './backtest';
+import { getSimulationPathLimit, runMonteCarloSimulation } from './monte-carlo';
+import { calculateFullProjection } from './projection';
+import { solveContributionAmount, solveInitialInvestment, solveInterestRate, solveInvestmentDuration } from './solvers';
+import type { BacktestAllocation, CalculationOptions, CalculationOutcome, CalculationScenario, EngineWarning, ProjectionParams, MonteCarloOptions, ScenarioField, SolverConvergence, WithdrawalParams } from './types';
+import { calculateWithdrawalTax } from './tax';
+import { error, info } from './warnings';
+import { projectWithdrawals } from './withdrawals';
+
+const fieldLabels: Record<ScenarioField, string> = {
+  initialInvestment: 'Initial Investment',
+  contributionAmount: 'Contribution Amount',
+  contributionFrequency: 'Contribution Frequency',
+  contributionTiming: 'Contribution Timing',
+  contributionIncreaseRate: 'Contribution Increase (%)',
+  contributionIncreaseAmount: 'Contribution Increase ($)',
+  interestRate: 'Interest Rate',
+  rateSchedule: 'Rate Schedule',
+  cashFlowEvents: 'One-off Events',
+  startDate: 'Start Date',
+  dayCountConvention: 'Day-Count Convention',
+  investmentDuration: 'Investment Duration',
+  inflationRate: 'Inflation Rate',
+  accountType: 'Account Type',
+  marginalIncomeTaxRate: 'Marginal Income Tax Rate',
+  capitalGainsTaxRate: 'Capital Gains Tax Rate',
+  dividendTaxRate: 'Dividend Tax Rate',
+  dividendYield: 'Dividend Yield',
+  expenseRatio: 'Expense Ratio',
+  advisoryFeeRate: 'Advisory Fee',
+  flatAnnualFee: 'Annual Account Fee',
+  perPeriodCentRounding: 'Per-Period Cent Rounding',
+  withdrawalStrategy: 'Withdrawal Strategy',
+  withdrawalAmount: 'Withdrawal Amount',
+  withdrawalRate: 'Withdrawal Rate',
+  withdrawalDuration: 'Withdrawal Duration',
+  monteCarloEnabled: 'Monte Carlo Simulation',
+  returnVolatility: 'Return Volatility',
+  returnDistribution: 'Return Distribution',
+  simulationCount: 'Number of Simulations',
+  simulationSeed: 'Random Seed',
+  backtestEnabled: 'Historical Backtest',
+  stockAllocation: 'Stock Allocation',
+  bondAllocation: 'Bond Allocation',
+  targetFutureValue: 'Target Future Value',
+  compoundingFrequency: 'Compounding Frequency',
+};
+
+const DEFAULT_SIMULATION_COUNT = 2000;
+const DEFAULT_SIMULATION_SEED = 1;
+
+const aborted = (warnings: EngineWarning[]): CalculationOutcome => ({
+  results: null,
+  yearlyData: [],
+  resolvedParams: null,
+  deferredMonteCarlo: null,
+  warnings,
+});
+
+const missingFieldsError = (scenario: CalculationScenario, required: ScenarioField[], message: string): EngineWarning | null => {
+  const missing = required.filter(field => scenario[field] === null);
+  if (missing.length === 0) return null;
+  const fieldErrors = Object.fromEntries(missing.map(field => [field, `${fieldLabels[field]} is required.`]));
+  return error('missing-input', "Input Error", message, fieldErrors);
+};
+
+const positiveDurationError = () =>
+  error('non-positive-duration', "Input Error", "Investment duration must be positive.", { investmentDuration: "Must be positive." });
+
+/**
+ * Runs a full calculation for the scenario's mode: goal-seeks the missing input if needed, then projects the
+ * investment year by year. Never throws for invalid input; problems are reported through `warnings`.
+ */
+export const runCalculation = (scenario: CalculationScenario, { deferMonteCarlo = false }: CalculationOptions = {}): CalculationOutcome => {
+  const { calculationMode, compoundingFrequency, contributionFrequency, contributionTiming, targetFutureValue, accountType, withdrawalStrategy, perPeriodCentRounding, startDate, dayCountConvention } = scenario;
+  const contributionIncreaseRate = scenario.contributionIncreaseRate ?? 0;
+  const contributionIncreaseAmount = scenario.contributionIncreaseAmount ?? 0;
+  const inflationRate = scenario.inflationRate ?? 0;
+  const dividendTaxRate = scenario.dividendTaxRate ?? 0;
+  const dividendYield = scenario.dividendYield ?? 0;
+  const marginalIncomeTaxRate = scenario.marginalIncomeTaxRate ?? 0;
+  const capitalGainsTaxRate = scenario.capitalGainsTaxRate ?? 0;
+  const expenseRatio = scenario.expenseRatio ?? 0;
+  const advisoryFeeRate = scenario.advisoryFeeRate ?? 0;
+  const flatAnnualFee = scenario.flatAnnualFee ?? 0;
+  const warnings: EngineWarning[] = [];
+
+  let initialInvestment = scenario.initialInvestment;
+  if (initialInvestment === null && calculationMode !== 'calculateInitialInvestment') {
+    return aborted([error('missing-input', "Input Error", "Initial Investment is required and cannot be empty.", { initialInvestment: "Initial Investment is required." })]);
+  }
+
+  let withdrawalParams: WithdrawalParams | null = null;
+  if (withdrawalStrategy !== 'none') {
+    const requiredField = withdrawalStrategy === 'fixedPercentage' ? 'withdrawalRate' : 'withdrawalAmount';
+    const missing = missingFieldsError(scenario, [requiredField], `Please fill ${fieldLabels[requiredField]} for the withdrawal phase, or turn withdrawals off.`);
+    if (missing) return aborted([missing]);
+    withdrawalParams = {
+      withdrawalStrategy,
+      withdrawalAmount: scenario.withdrawalAmount ?? 0,
+      withdrawalRate: scenario.withdrawalRate ?? 0,
+      withdrawalDuration: scenario.withdrawalDuration,
+    };
+  }
+
+  let monteCarloOptions: MonteCarloOptions | null = null;
+  if (scenario.monteCarloEnabled) {
+    const missing = missingFieldsError(scenario, ['returnVolatility'], "Please fill Return Volatility for the Monte Carlo simulation, or turn it off.");
+    if (missing) return aborted([missing]);
+    monteCarloOptions = {
+      returnVolatility: scenario.returnVolatility!,
+      returnDistribution: scenario.returnDistribution,
+      simulationCount: scenario.simulationCount ?? DEFAULT_SIMULATION_COUNT,
+      seed: scenario.simulationSeed ?? DEFAULT_SIMULATION_SEED,
+    };
+  }
+
+  let backtestAllocation: BacktestAllocation | null = null;
+  if (scenario.backtestEnabled) {
+    const missing = missingFieldsError(scenario, ['stockAllocation', 'bondAllocation'], "Please fill the stock and bond allocation for the historical backtest, or turn it off.");
+    if (missing) return aborted([missing]);
+    if (scenario.stockAllocation! + scenario.bondAllocation! > 100) {
+      return aborted([error('invalid-allocation', "Input Error", "Stock and bond allocations cannot add up to more than 100%.", { stockAllocation: "Allocations exceed 100%.", bondAllocation: "Allocations exceed 100%." })]);
+    }
+    backtestAllocation = { stockAllocation: scenario.stockAllocation!, bondAllocation: scenario.bondAllocation! };
+  }
+
+  const rateSchedule = [...scenario.rateSchedule].sort((a, b) => a.startYear - b.startYear);
+  if (rateSchedule.some((entry, index) => index > 0 && entry.startYear === rateSchedule[index - 1].startYear)) {
+    return aborted([error('duplicate-rate-change', "Input Error", "Each year can only have one rate change.", { rateSchedule: "Start years must be different." })]);
+  }
+
+  const { cashFlowEvents } = scenario;
+  if (cashFlowEvents.some(event => event.type === 'pauseContributions' ? !event.durationMonths : !event.amount)) {
+    return aborted([error('invalid-cash-flow-event', "Input Error", "Each one-off deposit or withdrawal needs an amount, and each contribution pause a duration.", { cashFlowEvents: "Complete or remove the unfinished events." })]);
+  }
+
+  if (startDate && !isValid(parseISO(startDate))) {
+    return aborted([error('invalid-start-date', "Input Error", "The start date is not a valid calendar date.", { startDate: "Enter a valid date or clear it." })]);
+  }
+
+  let contributionAmount = scenario.contributionAmount;
+  let interestRate = scenario.interestRate;
+  let investmentDuration = scenario.investmentDuration;
+  let interestRateConvergence: SolverConvergence | undefined;
+
+  if (calculationMode === 'futureValue') {
+    const missing = missingFieldsError(scenario, ['contributionAmount', 'interestRate', 'investmentDuration'], "For 'Future Value' calculation, please fill Contribution Amount, Interest Rate, and Investment Duration.");
+    if (missing) return aborted([missing]);
+
+  } else if (calculationMode === 'calculateInitialInvestment') {
+    const missing = missingFieldsError(scenario, ['contributionAmount', 'interestRate', 'investmentDuration', 'targetFutureValue'], "To calculate Initial Investment, please fill: Contribution Amount, Interest Rate, Investment Duration, and Target Future Value.");
+    if (missing) return aborted([missing]);
+    if (investmentDuration! <= 0) return aborted([positiveDurationError()]);
+
+    const solved = solveInitialInvestment({
+      contributionAmount: contributionAmount!,
+      contributionFrequency,
+      contributionTiming,
+      contributionIncreaseRate,
+      contributionIncreaseAmount,
+      interestRate: interestRate!,
+      rateSchedule,
+      cashFlowEvents,
+      startDate,
+      dayCountConvention,
+      investmentDuration: investmentDuration!,
+      inflationRate,
+      accountType,
+      dividendTaxRate,
+      dividendYield,
+      expenseRatio,
+      advisoryFeeRate,
+      flatAnnualFee,
+      perPeriodCentRounding,
+      compoundingFrequency,
+      targetFutureValue: targetFutureValue!,
+    });
+    warnings.push(...solved.warnings);
+    if (solved.value === null) return aborted(warnings);
+    initialInvestment = solved.value;
+
+  } else if (calculationMode === 'calculateMonthlyContribution') {
+    const missing = missingFieldsError(scenario, ['interestRate', 'investmentDuration', 'targetFutureValue'], "To calculate Contribution Amount, please fill: Interest Rate, Investment Duration, and Target Future Value.");
+    if (missing) return aborted([missing]);
+    if (investmentDuration! <= 0) return aborted([positiveDurationError()]);
+
+    const solved = solveContributionAmount({
+      initialInvestment: initialInvestment!,
+      contributionFrequency,
+      contributionTiming,
+      contributionIncreaseRate,
+      contributionIncreaseAmount,
+      interestRate: interestRate!,
+      rateSchedule,
+      cashFlowEvents,
+      startDate,
+      dayCountConvention,
+      investmentDuration: investmentDuration!,
+      inflationRate,
+      accountType,
+      dividendTaxRate,
+      dividendYield,
+      expenseRatio,
+      advisoryFeeRate,
+      flatAnnualFee,
+      perPeriodCentRounding,
+      compoundingFrequency,
+      targetFutureValue: targetFutureValue!,
+    });
+    warnings.push(...solved.warnings);
+    if (solved.value === null) return aborted(warnings);
+    contributionAmount = solved.value;
+
+  } else if (calculationMode === 'calculateInvestmentDuration') {
+    const missing = missingFieldsError(scenario, ['contributionAmount', 'interestRate', 'targetFutureValue'], "To calculate Investment Duration, please fill: Contribution Amount, Interest Rate, and Target Future Value.");
+    if (missing) return aborted([missing]);
+
+    const solved = solveInvestmentDuration({
+      initialInvestment: initialInvestment!,
+      contributionAmount: contributionAmount!,
+      contributionFrequency,
+      contributionTiming,
+      contributionIncreaseRate,
+      contributionIncreaseAmount,
+      interestRate: interestRate!,
+      rateSchedule,
+      cashFlowEvents,
+      startDate,
+      dayCountConvention,
+      inflationRate,
+      accountType,
+      dividendTaxRate,
+      dividendYield,
+      expenseRatio,
+      advisoryFeeRate,
+      flatAnnualFee,
+      perPeriodCentRounding,
+      compoundingFrequency,
+      targetFutureValue: targetFutureValue!,
+    });
+    warnings.push(...solved.warnings);
+    if (solved.value === null) return aborted(warnings);
+    investmentDuration = solved.value;
+
+  } else if (calculationMode === 'calculateInterestRate') {
+    const missing = missingFieldsError(scenario, ['contributionAmount', 'investmentDuration', 'targetFutureValue'], "To calculate Interest Rate, please fill: Contribution Amount, Investment Duration, and Target Future Value.");
+    if (missing) return aborted([missing]);
+    if (investmentDuration! <= 0) return aborted([positiveDurationError()]);
+
+    const solved = solveInterestRate({
+      initialInvestment: initialInvestment!,
+      contributionAmount: contributionAmount!,
+      contributionFrequency,
+      contributionTiming,
+      contributionIncreaseRate,
+      contributionIncreaseAmount,
+      rateSchedule,
+      cashFlowEvents,
+      startDate,
+      dayCountConvention,
+      investmentDuration: investmentDuration!,
+      inflationRate,
+      accountType,
+      dividendTaxRate,
+      dividendYield,
+      expenseRatio,
+      advisoryFeeRate,
+      flatAnnualFee,
+      perPeriodCentRounding,
+      compoundingFrequency,
+      targetFutureValue: targetFutureValue!,
+    });
+    warnings.push(...solved.warnings);
+    if (solved.value === null) return aborted(warnings);
+    interestRate = solved.value;
+    interestRateConvergence = solved.convergence;
+  }
+
+  if (initialInvestment === null || contributionAmount === null || interestRate === null || investmentDuration === null ||
+      isNaN(initialInvestment) || isNaN(contributionAmount) || isNaN(interestRate) || isNaN(investmentDuration) || investmentDuration < 0) {
+    return aborted([...warnings, error('invalid-projection-params', "Projection Error", "Core parameters for projection are missing or invalid after mode-specific calculations. Please review inputs.")]);
+  }
+
+  const resolvedParams: ProjectionParams = {
+    initialInvestment,
+    contributionAmount,
+    contributionFrequency,
+    contributionTiming,
+    contributionIncreaseRate,
+    contributionIncreaseAmount,
+    interestRate,
+    rateSchedule,
+    cashFlowEvents,
+    investmentDuration,
+    startDate,
+    dayCountConvention,
+    inflationRate,
+    accountType,
+    dividendTaxRate,
+    dividendYield,
+    expenseRatio,
+    advisoryFeeRate,
+    flatAnnualFee,
+    perPeriodCentRounding,
+    compoundingFrequency,
+  };
+  const projection = calculateFullProjection(resolvedParams);
+  warnings.push(...projection.warnings);
+
+  // Money is carried exactly, but a balance past the largest floating-point number cannot be reported.
+  const balanceOverflow = error('balance-overflow', "Calculation Error", "The balance grows too large to calculate. Try a lower interest rate or a shorter duration.");
+  if (!isFinite(projection.futureValue)) return aborted([...warnings, balanceOverflow]);
+
+  const withdrawals = withdrawalParams ? projectWithdrawals(resolvedParams, withdrawalParams, projection.futureValue) : null;
+  if (withdrawals && !(isFinite(withdrawals.endingBalance) && isFinite(withdrawals.totalWithdrawals))) {
+    return aborted([...warnings, balanceOverflow]);
+  }
+  if (withdrawals?.depletionYear != null) {
+    warnings.push(info('funds-depleted', "Withdrawal Alert", `At this withdrawal rate the money runs out in year ${withdrawals.depletionYear}.`));
+  }
+
+  if (monteCarloOptions) {
+    const pathLimit = getSimulationPathLimit(resolvedParams);
+    if (monteCarloOptions.simulationCount > pathLimit) {
+      warnings.push(info('simulation-count-reduced', "Fewer Simulations", `Only ${pathLimit.toLocaleString('en-US')} of the ${monteCarloOptions.simulationCount.toLocaleString('en-US')} simulations were run: a schedule this long or this frequent would take too long to simulate in full.`));
+      monteCarloOptions = { ...monteCarloOptions, simulationCount: pathLimit };
+    }
+  }
+  const deferredMonteCarlo = monteCarloOptions && deferMonteCarlo ? { params: resolvedParams, options: monteCarloOptions, targetFutureValue } : null;
+  const monteCarlo = monteCarloOptions && !deferMonteCarlo ? runMonteCarloSimulation(resolvedParams, monteCarloOptions, targetFutureValue) : undefined;
+
+  const backtest = backtestAllocation ? runHistoricalBacktest(resolvedParams, backtestAllocation) : null;
+  if (backtestAllocation && !backtest) {
+    warnings.push(info('backtest-too-long', "Backtest Unavailable", "The investment duration is longer than the available historical data, so no backtest could be run."));
+  }
+
+  const isGoalSeek = calculationMode !== 'futureValue' && targetFutureValue !== null;
+  const hasFees = expenseRatio > 0 || advisoryFeeRate > 0 || flatAnnualFee > 0;
+  const zeroFeeFutureValue = hasFees
+    ? calculateFullProjection({ ...resolvedParams, expenseRatio: 0, advisoryFeeRate: 0, flatAnnualFee: 0 }).futureValue
+    : projection.futureValue;
+  const withdrawalTax = calculateWithdrawalTax(projection.futureValue, projection.costBasis, { accountType, marginalIncomeTaxRate, capitalGainsTaxRate });
+  const results: CalculationResults = {
+    futureValue: projection.futureValue,
+    totalInterest: projection.totalInterest,
+    totalContributions: projection.totalContributions,
+    totalEventWithdrawals: cashFlowEvents.length > 0 ? projection.totalEventWithdrawals : undefined,
+    calculatedInitialInvestment: calculationMode === 'calculateInitialInvestment' ? initialInvestment : undefined,
+    calculatedContributionAmount: calculationMode === 'calculateMonthlyContribution' ? contributionAmount : undefined,
+    calculatedInterestRate: calculationMode === 'calculateInterestRate' ? interestRate : undefined,
+    interestRateSolverConvergence: interestRateConvergence,
+    calculatedInvestmentDuration: calculationMode === 'calculateInvestmentDuration' ? investmentDuration : undefined,
+    originalTargetFutureValue: isGoalSeek ? targetFutureValue : undefined,
+    realFutureValue: projection.realFutureValue,
+    realTotalInterest: projection.realTotalInterest,
+    realTotalContributions: projection.realTotalContributions,
+    totalTaxesPaid: projection.totalTaxesPaid,
+    withdrawalTax,
+    afterTaxFutureValue: projection.futureValue - withdrawalTax,
+    totalFeesPaid: projection.totalFeesPaid,
+    costOfFees: zeroFeeFutureValue - projection.futureValue,
+    totalWithdrawals: withdrawals?.totalWithdrawals,
+    balanceAfterWithdrawals: withdrawals?.endingBalance,
+    moneyLastsUntilYear: withdrawals ? withdrawals.depletionYear : undefined,
+    monteCarlo,
+    backtest: backtest ?? undefined,
+  };
+
+  return {
+    results,
+    yearlyData: withdrawals ? [...projection.yearlyData, ...withdrawals.yearlyData] : projection.yearlyData,
+    resolvedParams,
+    deferredMonteCarlo,
+    warnings,
+  };
+};
@@ -0,0 +1,23 @@
+import type { PeriodData } from '@/types';
+import { runCalculation } from './calculate';
+import { calculatePeriodSchedule } from './projection';
+import type { CalculationOutcome, CalculationScenario, PeriodGranularity, ProjectionParams } from './types';
+
+// Runs calculations and period schedules off the main thread: a long daily projection, and the goal-seek solvers that
+// run it many times, take seconds. Receives one request at a time and posts its result.
+
+export interface CalculationWorkerTasks {
+  calculation: { request: CalculationScenario; response: CalculationOutcome };
+  periodSchedule: { request: { params: ProjectionParams; periodGranularity: PeriodGranularity }; response: PeriodData[] };
+}
+
+export type CalculationWorkerRequest = {
+  [Kind in keyof CalculationWorkerTasks]: { kind: Kind; request: CalculationWorkerTasks[Kind]['request'] };
+}[keyof CalculationWorkerTasks];
+
+addEventListener('message', ({ data }: MessageEvent<CalculationWorkerRequest>) => {
+  // The simulation is left to its own worker, so the results can be shown before it finishes.
+  postMessage(data.kind === 'calculation'
+    ? runCalculation(data.request, { deferMonteCarlo: true })
+    : calculatePeriodSchedule(data.request.params, data.request.periodGranularity));
+});
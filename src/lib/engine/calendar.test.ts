@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { DayCountConvention } from '@/types';
+import { createScheduleCalendar, type ScheduleCalendar } from './calendar';
+import { calculateFullProjection } from './projection';
+import { baseParams } from './test-fixtures';
+
+const datedCalendar = (startDate: string, dayCountConvention: DayCountConvention, investmentDuration = 1) =>
+  createScheduleCalendar({ startDate, dayCountConvention, compoundingFrequency: 'monthly', contributionFrequency: 'monthly', contributionTiming: 'end', investmentDuration });
+
+// Days of interest in each year, adding up the accrual of the compounding periods within it.
+const accrualDaysByYear = (calendar: ScheduleCalendar) =>
+  calendar.yearEndTicks.map((yearEndTick, index) => {
+    const yearStartTick = index === 0 ? 0 : calendar.yearEndTicks[index - 1];
+    const ticks = [yearStartTick, ...calendar.compoundingTicks.filter(tick => tick > yearStartTick && tick <= yearEndTick)];
+    return ticks.slice(1).reduce((days, tick, period) => {
+      const { numerator, denominator } = calendar.getAccrualFraction(ticks[period], tick);
+      return days + numerator * 360 / denominator;
+    }, 0);
+  });
+
+describe('createScheduleCalendar', () => {
+  it.each(['2025-01-31', '2025-03-31', '2025-08-30', '2024-01-31'])('counts 360 days in every 30/360 year from %s', startDate => {
+    const calendar = datedCalendar(startDate, 'thirty360', 3);
+
+    expect(calendar.compoundingTicks).toHaveLength(36);
+    expect(accrualDaysByYear(calendar)).toEqual([360, 360, 360]);
+  });
+
+  it('counts each 30/360 month from the 31st as 30 days once the shorter month is behind it', () => {
+    const calendar = datedCalendar('2025-01-31', 'thirty360');
+    const dates = [0, ...calendar.compoundingTicks].map(tick => calendar.getDate(tick));
+    const days = calendar.compoundingTicks.map((tick, period) => calendar.getAccrualFraction(period === 0 ? 0 : calendar.compoundingTicks[period - 1], tick).numerator);
+
+    expect(dates.slice(0, 4)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31', '2025-04-30']);
+    expect(days).toEqual([28, 32, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]);
+  });
+
+  it('accrues the actual days over 365 under Actual/365, so a leap year earns a day more', () => {
+    expect(datedCalendar('2025-01-01', 'actual365').getAccrualFraction(0, 365)).toEqual({ numerator: 365, denominator: 365 });
+    const leapYear = datedCalendar('2024-01-01', 'actual365');
+
+    expect(leapYear.totalTicks).toBe(366);
+    expect(leapYear.getAccrualFraction(0, leapYear.totalTicks)).toEqual({ numerator: 366, denominator: 365 });
+  });
+
+  it('accrues the actual days over 360 under Actual/360', () => {
+    const calendar = datedCalendar('2025-01-01', 'actual360');
+
+    expect(calendar.getAccrualFraction(0, calendar.totalTicks)).toEqual({ numerator: 365, denominator: 360 });
+  });
+
+  it('accrues 365/360 of a year under Actual/360 without a start date', () => {
+    const calendar = createScheduleCalendar({ startDate: null, dayCountConvention: 'actual360', compoundingFrequency: 'monthly', contributionFrequency: 'monthly', contributionTiming: 'end', investmentDuration: 1 });
+    const { numerator, denominator } = calendar.getAccrualFraction(0, calendar.totalTicks);
+
+    expect(numerator / denominator).toBeCloseTo(365 / 360, 12);
+  });
+
+  it('ends the years of a leap-day start on February 28 and counts elapsed time by the days in each year', () => {
+    const calendar = datedCalendar('2024-02-29', 'actual365', 4);
+
+    expect(calendar.yearEndTicks.map(tick => calendar.getDate(tick))).toEqual(['2025-02-28', '2026-02-28', '2027-02-28', '2028-02-29']);
+    expect(calendar.getYearsElapsed(calendar.yearEndTicks[0])).toBe(1);
+    expect(calendar.getElapsedFraction(0, 183)).toEqual({ numerator: 183, denominator: 365 });
+    expect(calendar.getElapsedFraction(calendar.yearEndTicks[2], calendar.yearEndTicks[2] + 1)).toEqual({ numerator: 1, denominator: 366 });
+  });
+
+  it('builds a calendar once for the same dates and frequencies', () => {
+    expect(datedCalendar('2025-01-31', 'thirty360', 100)).toBe(datedCalendar('2025-01-31', 'thirty360', 100));
+    expect(datedCalendar('2025-01-31', 'thirty360', 100)).not.toBe(datedCalendar('2025-01-31', 'actual360', 100));
+  });
+});
+
+describe('calculateFullProjection with a start date', () => {
+  const lumpSum = { initialInvestment: 10000, contributionAmount: 0, investmentDuration: 1 };
+
+  it('compounds 30/360 from the 31st like twelve equal months', () => {
+    const { futureValue } = calculateFullProjection(baseParams({ ...lumpSum, startDate: '2025-01-31', dayCountConvention: 'thirty360' }));
+
+    expect(futureValue).toBe(10511.62);
+  });
+
+  it('earns more under Actual/360 than Actual/365 over the same dates', () => {
+    const actual365 = calculateFullProjection(baseParams({ ...lumpSum, startDate: '2025-01-01', dayCountConvention: 'actual365' })).futureValue;
+    const actual360 = calculateFullProjection(baseParams({ ...lumpSum, startDate: '2025-01-01', dayCountConvention: 'actual360' })).futureValue;
+
+    expect(actual365).toBe(10511.62);
+    expect(actual360).toBeGreaterThan(actual365);
+  });
+});
@@ -0,0 +1,185 @@
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { CompoundingFrequency, ContributionFrequency } from '@/types';
+import { getContributionsPerYear, getNumberOfPeriodsPerYear, getTicksPerYear } from './frequency';
+import type { ProjectionParams } from './types';
+
+const ISO_DATE_FORMAT = 'yyyy-MM-dd';
+
+// A span of time in years, kept as a ratio so that decimal arithmetic can divide it exactly.
+export interface YearFraction {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * The dates a projection walks through, as ticks counted from the start. Without a start date ticks are a uniform grid
+ * on which compounding and deposit dates all fall; with one they are days.
+ */
+export interface ScheduleCalendar {
+  totalTicks: number;
+  compoundingTicks: number[]; // ascending, within (0, totalTicks]; empty for continuous compounding
+  contributionTicks: number[]; // ascending, within [0, totalTicks]; empty for a contribution stream
+  yearEndTicks: number[]; // ascending, within (0, totalTicks]
+  getMonthTick: (monthIndex: number) => number; // month 0 is the start
+  getAccrualFraction: (fromTick: number, toTick: number) => YearFraction; // years of interest, per the day-count convention
+  getElapsedFraction: (fromTick: number, toTick: number) => YearFraction; // years of calendar time, for streams and flat fees
+  getYearsElapsed: (tick: number) => number; // calendar years since the start, for inflation
+  getDate: (tick: number) => string | undefined; // ISO date; undefined without a start date
+}
+
+type CalendarParams = Pick<ProjectionParams, 'startDate' | 'dayCountConvention' | 'compoundingFrequency' | 'contributionFrequency' | 'contributionTiming' | 'investmentDuration'>;
+
+type DateStep = { months: number } | { days: number };
+
+const compoundingSteps: Record<Exclude<CompoundingFrequency, 'continuously' | 'semimonthly'>, DateStep> = {
+  annually: { months: 12 },
+  semiannually: { months: 6 },
+  quarterly: { months: 3 },
+  monthly: { months: 1 },
+  biweekly: { days: 14 },
+  weekly: { days: 7 },
+  daily: { days: 1 },
+};
+
+const contributionSteps: Record<Exclude<ContributionFrequency, 'continuously'>, DateStep> = {
+  weekly: { days: 7 },
+  biweekly: { days: 14 },
+  monthly: { months: 1 },
+  quarterly: { months: 3 },
+  yearly: { months: 12 },
+};
+
+// Whole years are anniversaries of the start date; a fractional year is that share of the days to the next anniversary.
+export const addYearsToDate = (isoDate: string, years: number): string => {
+  const start = parseISO(isoDate);
+  const wholeYears = Math.floor(years);
+  const anniversary = addMonths(start, wholeYears * 12);
+  const daysToNextAnniversary = differenceInCalendarDays(addMonths(start, (wholeYears + 1) * 12), anniversary);
+  return format(addDays(anniversary, Math.round((years - wholeYears) * daysToNextAnniversary)), ISO_DATE_FORMAT);
+};
+
+// 30/360: every month counts as 30 days. A 31st counts as the 30th at either end of a stretch, so the stretches between
+// consecutive dates always add up to 360 days a year, even when the start date is the 31st and some months end sooner.
+const getThirty360Days = (from: Date, to: Date): number =>
+  360 * (to.getFullYear() - from.getFullYear()) + 30 * (to.getMonth() - from.getMonth()) + (Math.min(to.getDate(), 30) - Math.min(from.getDate(), 30));
+
+// Without dates every year has 365 days: Actual/360 then accrues 365/360 of the rate and 30/360 a plain year.
+const createUniformCalendar = ({
+  dayCountConvention,
+  compoundingFrequency,
+  contributionFrequency,
+  contributionTiming,
+  investmentDuration,
+}: Omit<CalendarParams, 'startDate'>): ScheduleCalendar => {
+  const isContinuousCompounding = compoundingFrequency === 'continuously';
+  const isContributionStream = contributionFrequency === 'continuously';
+  const compoundingPeriodsPerYear = isContinuousCompounding ? 1 : getNumberOfPeriodsPerYear(compoundingFrequency);
+  const contributionsPerYear = isContributionStream ? 1 : getContributionsPerYear(contributionFrequency);
+  const ticksPerYear = getTicksPerYear(compoundingPeriodsPerYear, contributionsPerYear);
+  const ticksPerCompoundingPeriod = ticksPerYear / compoundingPeriodsPerYear;
+  const ticksPerContribution = ticksPerYear / contributionsPerYear;
+  // Rounded so that whole-tick horizons are not lost to floating point noise (e.g. 0.1 * 30).
+  const totalTicks = Math.round(investmentDuration * ticksPerYear * 1e6) / 1e6;
+
+  const ticksEvery = (firstTick: number, step: number): number[] => {
+    const ticks: number[] = [];
+    for (let tick = firstTick; tick <= totalTicks; tick += step) ticks.push(tick);
+    return ticks;
+  };
+
+  return {
+    totalTicks,
+    compoundingTicks: isContinuousCompounding ? [] : ticksEvery(ticksPerCompoundingPeriod, ticksPerCompoundingPeriod),
+    contributionTicks: isContributionStream ? [] : ticksEvery(contributionTiming === 'beginning' ? 0 : ticksPerContribution, ticksPerContribution),
+    yearEndTicks: ticksEvery(ticksPerYear, ticksPerYear),
+    getMonthTick: monthIndex => monthIndex * ticksPerYear / 12,
+    getAccrualFraction: (fromTick, toTick) => dayCountConvention === 'actual360'
+      ? { numerator: (toTick - fromTick) * 365, denominator: ticksPerYear * 360 }
+      : { numerator: toTick - fromTick, denominator: ticksPerYear },
+    getElapsedFraction: (fromTick, toTick) => ({ numerator: toTick - fromTick, denominator: ticksPerYear }),
+    getYearsElapsed: tick => tick / ticksPerYear,
+    getDate: () => undefined,
+  };
+};
+
+// Dates are anchored to the start date (a deposit on the 31st falls on the last day of shorter months) and ticks are
+// days, so leap years have 366.
+const createDatedCalendar = ({
+  startDate,
+  dayCountConvention,
+  compoundingFrequency,
+  contributionFrequency,
+  contributionTiming,
+  investmentDuration,
+}: CalendarParams & { startDate: string }): ScheduleCalendar => {
+  const start = parseISO(startDate);
+  const tickOf = (date: Date) => differenceInCalendarDays(date, start);
+  const dateOf = (tick: number) => addDays(start, tick);
+  const totalTicks = tickOf(parseISO(addYearsToDate(startDate, investmentDuration)));
+  const anniversaryTicks = Array.from({ length: Math.ceil(investmentDuration) + 2 }, (_, years) => tickOf(addMonths(start, years * 12)));
+
+  const ticksEvery = (step: DateStep, firstIndex: number): number[] => {
+    const ticks: number[] = [];
+    for (let index = firstIndex; ; index++) {
+      const tick = tickOf('months' in step ? addMonths(start, index * step.months) : addDays(start, index * step.days));
+      if (tick > totalTicks) return ticks;
+      ticks.push(tick);
+    }
+  };
+
+  // Semimonthly interest is credited on each monthly anniversary and 15 days after it.
+  const getCompoundingTicks = (): number[] => {
+    if (compoundingFrequency === 'continuously') return [];
+    if (compoundingFrequency !== 'semimonthly') return ticksEvery(compoundingSteps[compoundingFrequency], 1);
+    const monthlyTicks = ticksEvery({ months: 1 }, 0);
+    const midMonthTicks = monthlyTicks.map(tick => tick + 15).filter(tick => tick <= totalTicks);
+    return [...monthlyTicks.slice(1), ...midMonthTicks].sort((a, b) => a - b);
+  };
+
+  const getYearIndex = (tick: number) => {
+    const nextAnniversaryIndex = anniversaryTicks.findIndex(anniversaryTick => anniversaryTick > tick);
+    return nextAnniversaryIndex === -1 ? anniversaryTicks.length - 2 : nextAnniversaryIndex - 1;
+  };
+  const getDaysInYear = (yearIndex: number) => anniversaryTicks[yearIndex + 1] - anniversaryTicks[yearIndex];
+
+  return {
+    totalTicks,
+    compoundingTicks: getCompoundingTicks(),
+    contributionTicks: contributionFrequency === 'continuously' ? [] : ticksEvery(contributionSteps[contributionFrequency], contributionTiming === 'beginning' ? 0 : 1),
+    yearEndTicks: anniversaryTicks.slice(1).filter(tick => tick <= totalTicks),
+    getMonthTick: monthIndex => tickOf(addMonths(start, monthIndex)),
+    getAccrualFraction: (fromTick, toTick) => {
+      switch (dayCountConvention) {
+        case 'actual360': return { numerator: toTick - fromTick, denominator: 360 };
+        case 'thirty360': return { numerator: getThirty360Days(dateOf(fromTick), dateOf(toTick)), denominator: 360 };
+        case 'actual365':
+        default: return { numerator: toTick - fromTick, denominator: 365 };
+      }
+    },
+    // Streams never span a year end (year ends are always ticks), so the year the stretch starts in is its year.
+    getElapsedFraction: (fromTick, toTick) => ({ numerator: toTick - fromTick, denominator: getDaysInYear(getYearIndex(fromTick)) }),
+    getYearsElapsed: tick => {
+      const yearIndex = getYearIndex(tick);
+      return yearIndex + (tick - anniversaryTicks[yearIndex]) / getDaysInYear(yearIndex);
+    },
+    getDate: tick => format(dateOf(tick), ISO_DATE_FORMAT),
+  };
+};
+
+// Solvers, sensitivity runs and the withdrawal phase project over the same dates again and again, and a dated calendar
+// of a long daily schedule takes a noticeable time to build, so the most recently built calendars are kept.
+const MAX_CACHED_CALENDARS = 64;
+const calendarCache = new Map<string, ScheduleCalendar>();
+
+/** The calendar for the given dates and frequencies; callers share it, so its tick lists must not be modified. */
+export const createScheduleCalendar = ({ startDate, dayCountConvention, compoundingFrequency, contributionFrequency, contributionTiming, investmentDuration }: CalendarParams): ScheduleCalendar => {
+  const params = { dayCountConvention, compoundingFrequency, contributionFrequency, contributionTiming, investmentDuration };
+  const key = JSON.stringify([startDate, params]);
+  const cached = calendarCache.get(key);
+  if (cached) return cached;
+
+  const calendar = startDate ? createDatedCalendar({ ...params, startDate }) : createUniformCalendar(params);
+  if (calendarCache.size >= MAX_CACHED_CALENDARS) calendarCache.delete(calendarCache.keys().next().value!);
+  calendarCache.set(key, calendar);
+  return calendar;
+};
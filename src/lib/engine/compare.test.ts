@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { CalculationResults, YearlyData } from '@/types';
+import { compareResults, compareYearlyData } from './compare';
+
+const results = (overrides: Partial<CalculationResults>): CalculationResults => ({
+  futureValue: 0,
+  totalInterest: 0,
+  totalContributions: 0,
+  ...overrides,
+});
+
+const rows = (endingBalances: number[], realEndingBalance?: (balance: number) => number): YearlyData[] =>
+  endingBalances.map((endingBalance, index) => ({
+    year: index + 1,
+    startingBalance: 0,
+    interestEarned: 0,
+    contributions: 0,
+    endingBalance,
+    ...(realEndingBalance ? { realEndingBalance: realEndingBalance(endingBalance) } : {}),
+  }));
+
+describe('compareResults', () => {
+  it('measures every calculation against the first', () => {
+    const comparison = compareResults([
+      results({ futureValue: 20000, totalContributions: 12000, totalInterest: 8000 }),
+      results({ futureValue: 25000, totalContributions: 12000, totalInterest: 13000 }),
+      results({ futureValue: 18000, totalContributions: 13000, totalInterest: 5000 }),
+    ]);
+
+    expect(comparison).toEqual([
+      { field: 'futureValue', values: [20000, 25000, 18000], deltas: [0, 5000, -2000] },
+      { field: 'totalContributions', values: [12000, 12000, 13000], deltas: [0, 0, 1000] },
+      { field: 'totalInterest', values: [8000, 13000, 5000], deltas: [0, 5000, -3000] },
+    ]);
+  });
+
+  it('has no delta where either calculation lacks the figure', () => {
+    const comparison = compareResults([
+      results({ futureValue: 1, totalFeesPaid: 50 }),
+      results({ futureValue: 1 }),
+      results({ futureValue: 1, totalFeesPaid: 80 }),
+    ]);
+
+    expect(comparison.find(row => row.field === 'totalFeesPaid')).toEqual({ field: 'totalFeesPaid', values: [50, null, 80], deltas: [0, null, 30] });
+  });
+
+  it('leaves out figures that are missing or zero in every calculation', () => {
+    const comparison = compareResults([results({ futureValue: 100, totalTaxesPaid: 0 }), results({ futureValue: 200 })]);
+
+    expect(comparison.map(row => row.field)).toEqual(['futureValue']);
+  });
+
+  it('compares the year the money runs out, including never', () => {
+    const comparison = compareResults([results({ futureValue: 1, moneyLastsUntilYear: 30 }), results({ futureValue: 1, moneyLastsUntilYear: null })]);
+
+    expect(comparison.find(row => row.field === 'moneyLastsUntilYear')).toEqual({ field: 'moneyLastsUntilYear', values: [30, null], deltas: [0, null] });
+  });
+});
+
+describe('compareYearlyData', () => {
+  it('lines up ending balances by year and runs through the longest projection', () => {
+    const comparison = compareYearlyData([rows([100, 200]), rows([150, 180, 300])]);
+
+    expect(comparison).toEqual([
+      { year: 1, endingBalances: [100, 150], differences: [0, 50] },
+      { year: 2, endingBalances: [200, 180], differences: [0, -20] },
+      { year: 3, endingBalances: [null, 300], differences: [null, null] },
+    ]);
+  });
+
+  it('compares real balances when asked, falling back to nominal ones', () => {
+    const comparison = compareYearlyData([rows([110], balance => balance / 1.25), rows([220])], true);
+
+    expect(comparison).toEqual([{ year: 1, endingBalances: [88, 220], differences: [0, 132] }]);
+  });
+
+  it('is empty with nothing to compare', () => {
+    expect(compareYearlyData([[], []])).toEqual([]);
+  });
+});
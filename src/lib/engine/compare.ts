@@ -0,0 +1,53 @@
+import type { CalculationResults, YearlyData } from '@/types';
+import type { ComparableResultField, ResultComparison, YearlyComparison } from './types';
+
+// The figures two calculations can be compared on, in display order.
+export const comparableResultFields: ComparableResultField[] = [
+  'futureValue',
+  'totalContributions',
+  'totalInterest',
+  'calculatedInitialInvestment',
+  'calculatedContributionAmount',
+  'calculatedInterestRate',
+  'calculatedInvestmentDuration',
+  'realFutureValue',
+  'totalFeesPaid',
+  'costOfFees',
+  'totalTaxesPaid',
+  'afterTaxFutureValue',
+  'totalWithdrawals',
+  'balanceAfterWithdrawals',
+  'moneyLastsUntilYear',
+];
+
+const differenceFrom = (baseline: number | null, value: number | null): number | null =>
+  baseline === null || value === null ? null : value - baseline;
+
+/**
+ * Lines up the results of several calculations field by field; the first is the baseline the others' deltas are
+ * measured against. Fields that are missing or zero in all of them are left out.
+ */
+export const compareResults = (results: CalculationResults[]): ResultComparison[] =>
+  comparableResultFields
+    .map((field): ResultComparison => {
+      const values = results.map(result => result[field] ?? null);
+      return { field, values, deltas: values.map(value => differenceFrom(values[0], value)) };
+    })
+    .filter(({ values }) => values.some(value => value !== null && value !== 0));
+
+/**
+ * Ending balances year by year, aligned on the year number (not the calendar date), with each one's difference from the
+ * first calculation's. Runs through the longest of the projections; a shorter one has no balance after its last year.
+ */
+export const compareYearlyData = (yearlyDataSets: YearlyData[][], useRealValues = false): YearlyComparison[] => {
+  const yearCount = Math.max(0, ...yearlyDataSets.map(yearlyData => yearlyData[yearlyData.length - 1]?.year ?? 0));
+  return Array.from({ length: yearCount }, (_, yearIndex) => {
+    const year = yearIndex + 1;
+    const endingBalances = yearlyDataSets.map(yearlyData => {
+      const row = yearlyData.find(data => data.year === year);
+      if (!row) return null;
+      return useRealValues ? row.realEndingBalance ?? row.endingBalance : row.endingBalance;
+    });
+    return { year, endingBalances, differences: endingBalances.map(balance => differenceFrom(endingBalances[0], balance)) };
+  });
+};
@@ -0,0 +1,36 @@
+import type { CompoundingFrequency, ContributionFrequency } from '@/types';
+
+export const getNumberOfPeriodsPerYear = (frequency: CompoundingFrequency | undefined | null): number => {
+  if (!frequency) return 1;
+  switch (frequency) {
+    case 'annually': return 1;
+    case 'semiannually': return 2;
+    case 'quarterly': return 4;
+    case 'monthly': return 12;
+    case 'semimonthly': return 24;
+    case 'biweekly': return 26;
+    case 'weekly': return 52;
+    case 'daily': return 365;
+    case 'continuously': return Infinity;
+    default: return 1;
+  }
+};
+
+export const getContributionsPerYear = (frequency: ContributionFrequency | undefined | null): number => {
+  if (!frequency) return 12;
+  switch (frequency) {
+    case 'weekly': return 52;
+    case 'biweekly': return 26;
+    case 'monthly': return 12;
+    case 'quarterly': return 4;
+    case 'yearly': return 1;
+    case 'continuously': return Infinity;
+    default: return 12;
+  }
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Number of ticks per year on a grid where both compounding dates and deposit dates fall on whole ticks.
+export const getTicksPerYear = (compoundingPeriodsPerYear: number, contributionsPerYear: number): number =>
+  (compoundingPeriodsPerYear * contributionsPerYear) / gcd(compoundingPeriodsPerYear, contributionsPerYear);
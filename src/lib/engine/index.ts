@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Framework-free projection engine used by the calculator UI, server routes and AI flows.
+ *
+ * - runCalculation - Runs a complete calculation (goal-seek + projection) for a scenario.
+ * - calculateFullProjection - Projects a fully specified investment year by year.
+ * - calculatePeriodSchedule - Breaks the projection down by month or compounding period within each year.
+ * - solveInitialInvestment / solveContributionAmount / solveInterestRate / solveInvestmentDuration - Goal-seek solvers for each calculation mode.
+ * - runMonteCarloSimulation - Percentile outcomes of the projection under randomly varying yearly returns.
+ * - runHistoricalBacktest - Replays the plan against historical market returns for every start year.
+ * - projectWithdrawals - Extends a projection with a withdrawal (decumulation) phase.
+ * - calculateWithdrawalTax - Tax due on liquidating the final balance for the chosen account type.
+ * - compareResults / compareYearlyData - Side-by-side deltas between the results of several calculations.
+ * - runSensitivityAnalysis / calculateRateDurationGrid - Future value under perturbed inputs (tornado chart and heatmap).
+ */
+
+export { runCalculation } from './calculate';
+export { calculateFullProjection, calculatePeriodSchedule, calculateProjectionWithYearlyRates, createYearlyRatesProjection, getAnnualScheduleFactors } from './projection';
+export { solveContributionAmount, solveInitialInvestment, solveInterestRate, solveInvestmentDuration } from './solvers';
+export { calculateWithdrawalTax } from './tax';
+export { projectWithdrawals } from './withdrawals';
+export { runMonteCarloSimulation } from './monte-carlo';
+export { runHistoricalBacktest } from './backtest';
+export { compareResults, compareYearlyData, comparableResultFields } from './compare';
+export { calculateRateDurationGrid, runSensitivityAnalysis } from './sensitivity';
+export { getContributionsPerYear, getNumberOfPeriodsPerYear } from './frequency';
+export type {
+  BacktestAllocation,
+  CalculationOptions,
+  CalculationOutcome,
+  CalculationScenario,
+  ComparableResultField,
+  EngineWarning,
+  EngineWarningSeverity,
+  MonteCarloOptions,
+  MonteCarloRequest,
+  PeriodGranularity,
+  ProjectionOptions,
+  ProjectionParams,
+  ProjectionResult,
+  RateDurationGrid,
+  RateDurationGridOptions,
+  ResultComparison,
+  ScenarioField,
+  SensitivityAnalysis,
+  SensitivityFactor,
+  SensitivityInput,
+  SensitivityPoint,
+  SolverConvergence,
+  SolverResult,
+  WithdrawalParams,
+  WithdrawalResult,
+  WithdrawalTaxParams,
+  YearlyComparison,
+} from './types';
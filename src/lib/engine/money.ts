@@ -0,0 +1,65 @@
+import Decimal from 'decimal.js-light';
+
+// 34 significant digits (as in IEEE 754 decimal128): whole cents stay exact far beyond the 100B target cap.
+const MoneyDecimal = Decimal.clone({ precision: 34, rounding: Decimal.ROUND_HALF_EVEN });
+
+/**
+ * The operations the projection performs on money amounts, so the same schedule code can run on exact decimals (for
+ * reported results) or on plain floats (for the thousands of runs of simulations and solver searches).
+ *
+ * Rounding to cents is half-to-even ("banker's rounding"), so ties do not drift in either direction over many periods.
+ */
+export interface MoneyArithmetic<M> {
+  of: (value: number) => M;
+  plus: (a: M, b: M) => M;
+  minus: (a: M, b: M) => M;
+  times: (a: M, b: M) => M;
+  dividedBy: (a: M, b: M) => M;
+  exp: (a: M) => M;
+  isPositive: (a: M) => boolean; // strictly greater than zero
+  isZero: (a: M) => boolean;
+  lessThan: (a: M, b: M) => boolean;
+  roundToCents: (a: M) => M;
+  roundDownToCents: (a: M) => M; // towards zero, for amounts that must not exceed the value they are rounded from
+  toNumber: (a: M) => number;
+}
+
+export const decimalArithmetic: MoneyArithmetic<Decimal> = {
+  // Numbers convert through their shortest decimal representation, so an input of 0.1 is exactly 0.1.
+  of: value => new MoneyDecimal(value),
+  plus: (a, b) => a.plus(b),
+  minus: (a, b) => a.minus(b),
+  times: (a, b) => a.times(b),
+  dividedBy: (a, b) => a.dividedBy(b),
+  exp: a => a.exp(),
+  isPositive: a => a.gt(0),
+  isZero: a => a.isZero(),
+  lessThan: (a, b) => a.lt(b),
+  roundToCents: a => a.toDecimalPlaces(2, Decimal.ROUND_HALF_EVEN),
+  roundDownToCents: a => a.toDecimalPlaces(2, Decimal.ROUND_DOWN),
+  toNumber: a => a.toNumber(),
+};
+
+export const floatArithmetic: MoneyArithmetic<number> = {
+  of: value => value,
+  plus: (a, b) => a + b,
+  minus: (a, b) => a - b,
+  times: (a, b) => a * b,
+  dividedBy: (a, b) => a / b,
+  exp: a => Math.exp(a),
+  isPositive: a => a > 0,
+  isZero: a => a === 0,
+  lessThan: (a, b) => a < b,
+  roundToCents: a => {
+    const cents = a * 100;
+    const rounded = Math.round(cents);
+    // Math.round breaks ties upwards; move exact ties to the even cent instead.
+    return (rounded - cents === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded) / 100;
+  },
+  roundDownToCents: a => Math.trunc(a * 100) / 100,
+  toNumber: a => a,
+};
+
+// Rounds a solved amount up to the next whole cent, so depositing it reaches the target rather than falling just short.
+export const roundUpToCents = (value: number): number =>
+  new MoneyDecimal(value).toDecimalPlaces(2, Decimal.ROUND_UP).toNumber();
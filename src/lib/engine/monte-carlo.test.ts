@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { runCalculation } from './calculate';
+import { getSimulationPathLimit, runMonteCarloSimulation } from './monte-carlo';
+import { calculateFullProjection, createYearlyRatesProjection } from './projection';
+import { baseParams, baseScenario } from './test-fixtures';
+import type { MonteCarloOptions } from './types';
+
+const options = (overrides: Partial<MonteCarloOptions> = {}): MonteCarloOptions => ({
+  returnVolatility: 15,
+  returnDistribution: 'normal',
+  simulationCount: 200,
+  seed: 1,
+  ...overrides,
+});
+
+describe('createYearlyRatesProjection', () => {
+  it('reproduces the full projection when given the scheduled rates', () => {
+    const params = baseParams({ inflationRate: 2, rateSchedule: [{ startYear: 4, rate: 7 }], contributionIncreaseRate: 3 });
+    const scheduledRates = Array.from({ length: 10 }, (_, yearIndex) => (yearIndex < 3 ? 5 : 7));
+
+    expect(createYearlyRatesProjection(params)(scheduledRates, Array(10).fill(2))).toEqual(calculateFullProjection(params).yearlyData);
+  });
+
+  it('carries the balance and the inflation deflator across years of different rates', () => {
+    const project = createYearlyRatesProjection(baseParams({ contributionAmount: 0, investmentDuration: 2, compoundingFrequency: 'annually' }));
+    const [first, second] = project([10, -10], [0, 10]);
+
+    expect(first.endingBalance).toBe(11000);
+    expect(second.endingBalance).toBe(9900);
+    expect(second.realEndingBalance).toBeCloseTo(9000, 2);
+  });
+});
+
+describe('runMonteCarloSimulation', () => {
+  it('reproduces the projection with zero volatility', () => {
+    const params = baseParams();
+    const summary = runMonteCarloSimulation(params, options({ returnVolatility: 0 }), null);
+    const { futureValue } = calculateFullProjection(params);
+
+    expect(summary.futureValuePercentiles.p10).toBeCloseTo(futureValue, 2);
+    expect(summary.futureValuePercentiles.p90).toBeCloseTo(futureValue, 2);
+  });
+
+  it('gives the same paths for the same seed and reports progress up to the last path', () => {
+    const progress: number[] = [];
+    const first = runMonteCarloSimulation(baseParams(), options(), 25000, completedPaths => progress.push(completedPaths));
+
+    expect(runMonteCarloSimulation(baseParams(), options(), 25000)).toEqual(first);
+    expect(progress).toEqual([50, 100, 150, 200]);
+  });
+});
+
+describe('getSimulationPathLimit', () => {
+  it('allows fewer paths for longer and more frequent schedules', () => {
+    const monthly = getSimulationPathLimit(baseParams({ investmentDuration: 30 }));
+    const daily = getSimulationPathLimit(baseParams({ investmentDuration: 30, compoundingFrequency: 'daily' }));
+
+    expect(monthly).toBeGreaterThan(10000);
+    expect(daily).toBeLessThan(monthly);
+  });
+
+  it('caps the simulation count in a calculation and says so', () => {
+    const scenario = baseScenario({ investmentDuration: 100, compoundingFrequency: 'daily', monteCarloEnabled: true, returnVolatility: 15, simulationCount: 10000 });
+    const { deferredMonteCarlo, results, warnings } = runCalculation(scenario, { deferMonteCarlo: true });
+    const pathLimit = getSimulationPathLimit(deferredMonteCarlo!.params);
+
+    expect(results?.monteCarlo).toBeUndefined();
+    expect(pathLimit).toBeLessThan(10000);
+    expect(deferredMonteCarlo?.options.simulationCount).toBe(pathLimit);
+    expect(warnings.map(warning => warning.code)).toContain('simulation-count-reduced');
+  });
+});
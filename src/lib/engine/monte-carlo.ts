@@ -0,0 +1,77 @@
+import type { MonteCarloSummary, PercentileValues } from '@/types';
+import { createScheduleCalendar } from './calendar';
+import { createYearlyRatesProjection, getInterestRateForYear } from './projection';
+import { createSeededRandom, sampleStandardNormal, sampleUnitVarianceStudentT } from './random';
+import type { MonteCarloOptions, ProjectionOptions, ProjectionParams } from './types';
+
+const FAT_TAIL_DEGREES_OF_FREEDOM = 5;
+// A year cannot lose more than this (in %), whatever the draw.
+const MIN_YEARLY_RETURN_PERCENT = -99;
+// Paths are only summarized as percentiles, so they run on floats: decimals would make thousands of paths too slow.
+const PATH_PROJECTION_OPTIONS: ProjectionOptions = { arithmetic: 'float', roundToCents: true };
+// Schedule steps (compoundings, deposits and year ends) all paths together may take, a few seconds of work.
+const MAX_SIMULATION_STEPS = 20_000_000;
+// Progress is reported after every this many paths.
+const PROGRESS_INTERVAL = 50;
+
+const percentile = (sortedValues: number[], fraction: number): number => {
+  const position = (sortedValues.length - 1) * fraction;
+  const lowerIndex = Math.floor(position);
+  const upperIndex = Math.ceil(position);
+  return sortedValues[lowerIndex] + (sortedValues[upperIndex] - sortedValues[lowerIndex]) * (position - lowerIndex);
+};
+
+const percentilesOf = (values: number[]): PercentileValues => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+};
+
+/** The most paths a simulation of `params` may run: fewer the more schedule steps each path walks through. */
+export const getSimulationPathLimit = (params: ProjectionParams): number => {
+  const { compoundingTicks, contributionTicks, yearEndTicks } = createScheduleCalendar(params);
+  const stepsPerPath = compoundingTicks.length + contributionTicks.length + yearEndTicks.length;
+  return Math.max(Math.floor(MAX_SIMULATION_STEPS / Math.max(stepsPerPath, 1)), 1);
+};
+
+/**
+ * Runs `simulationCount` paths of the accumulation phase in which every year's interest rate is drawn independently
+ * around that year's scheduled rate with standard deviation `returnVolatility`, so a path with zero volatility reproduces
+ * `calculateFullProjection`. The same seed always gives the same paths. `onProgress` hears how many paths are done.
+ */
+export const runMonteCarloSimulation = (
+  params: ProjectionParams,
+  { returnVolatility, returnDistribution, simulationCount, seed }: MonteCarloOptions,
+  targetFutureValue: number | null,
+  onProgress?: (completedPaths: number) => void
+): MonteCarloSummary => {
+  const random = createSeededRandom(seed);
+  const sampleShock = returnDistribution === 'fatTailed'
+    ? () => sampleUnitVarianceStudentT(random, FAT_TAIL_DEGREES_OF_FREEDOM)
+    : () => sampleStandardNormal(random);
+  const yearCount = Math.ceil(params.investmentDuration);
+  const balancesByYear: number[][] = Array.from({ length: yearCount }, () => []);
+  const futureValues: number[] = [];
+  const projectPath = createYearlyRatesProjection(params, PATH_PROJECTION_OPTIONS);
+
+  for (let path = 0; path < simulationCount; path++) {
+    const yearlyInterestRates = Array.from({ length: yearCount }, (_, yearIndex) =>
+      Math.max(MIN_YEARLY_RETURN_PERCENT, getInterestRateForYear(params, yearIndex + 1) + returnVolatility * sampleShock()));
+    const yearlyData = projectPath(yearlyInterestRates);
+    yearlyData.forEach((row, yearIndex) => balancesByYear[yearIndex].push(row.endingBalance));
+    futureValues.push(yearlyData.length > 0 ? yearlyData[yearlyData.length - 1].endingBalance : params.initialInvestment);
+    if (onProgress && ((path + 1) % PROGRESS_INTERVAL === 0 || path + 1 === simulationCount)) onProgress(path + 1);
+  }
+
+  return {
+    simulationCount,
+    seed,
+    futureValuePercentiles: percentilesOf(futureValues),
+    probabilityOfReachingTarget: targetFutureValue === null
+      ? null
+      : futureValues.filter(value => value >= targetFutureValue).length / simulationCount,
+    yearlyPercentiles: balancesByYear.map((balances, yearIndex) => ({
+      year: yearIndex + 1,
+      ...percentilesOf(balances),
+    })),
+  };
+};
@@ -0,0 +1,18 @@
+import type { MonteCarloSummary } from '@/types';
+import { runMonteCarloSimulation } from './monte-carlo';
+import type { MonteCarloRequest } from './types';
+
+// Runs a Monte Carlo simulation off the main thread: receives one MonteCarloRequest, posts progress as paths complete
+// and then the summary.
+
+export type MonteCarloWorkerMessage =
+  | { type: 'progress'; completedPaths: number }
+  | { type: 'done'; summary: MonteCarloSummary };
+
+const post = (message: MonteCarloWorkerMessage) => postMessage(message);
+
+addEventListener('message', (event: MessageEvent<MonteCarloRequest>) => {
+  const { params, options, targetFutureValue } = event.data;
+  const summary = runMonteCarloSimulation(params, options, targetFutureValue, completedPaths => post({ type: 'progress', completedPaths }));
+  post({ type: 'done', summary });
+});
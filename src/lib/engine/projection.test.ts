@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFullProjection, calculatePeriodSchedule, getInterestRateForYear } from './projection';
+import { baseParams } from './test-fixtures';
+
+const cents = (value: number) => Math.round(value * 100);
+
+describe('calculateFullProjection', () => {
+  it('reconciles every yearly row to the cent', () => {
+    const { yearlyData } = calculateFullProjection(baseParams({ compoundingFrequency: 'daily', interestRate: 7.3 }));
+
+    expect(yearlyData).toHaveLength(10);
+    yearlyData.forEach((row, index) => {
+      expect(cents(row.startingBalance + row.contributions + row.interestEarned)).toBe(cents(row.endingBalance));
+      if (index > 0) expect(row.startingBalance).toBe(yearlyData[index - 1].endingBalance);
+    });
+  });
+
+  it('sums the rows to the totals', () => {
+    const projection = calculateFullProjection(baseParams({ contributionIncreaseRate: 3 }));
+    const sum = (field: 'contributions' | 'interestEarned') => projection.yearlyData.reduce((total, row) => total + cents(row[field]), 0);
+
+    expect(sum('contributions') + cents(10000)).toBe(cents(projection.totalContributions));
+    expect(sum('interestEarned')).toBe(cents(projection.totalInterest));
+  });
+
+  it('compounds annually with yearly deposits like the textbook formula', () => {
+    const { futureValue } = calculateFullProjection(baseParams({ compoundingFrequency: 'annually', contributionFrequency: 'yearly', contributionAmount: 1200 }));
+
+    expect(futureValue).toBeCloseTo(10000 * 1.05 ** 10 + (1200 * (1.05 ** 10 - 1)) / 0.05, 1);
+  });
+
+  it.each(['decimal', 'float'] as const)('caps a withdrawal at the balance in whole cents (%s)', arithmetic => {
+    const projection = calculateFullProjection(
+      baseParams({ investmentDuration: 3, cashFlowEvents: [{ type: 'withdrawal', year: 2, month: 7, amount: 1000000 }] }),
+      { arithmetic, roundToCents: true }
+    );
+    const withdrawalRow = projection.yearlyData[1];
+
+    expect(withdrawalRow.eventWithdrawals).toBeLessThan(1000000);
+    expect(cents(withdrawalRow.eventWithdrawals!) / 100).toBe(withdrawalRow.eventWithdrawals);
+    expect(projection.totalEventWithdrawals).toBe(withdrawalRow.eventWithdrawals);
+    // Floats carry sums of cents with rounding noise, far below a cent.
+    expect(cents(projection.totalInterest) / 100).toBeCloseTo(projection.totalInterest, 9);
+    expect(cents(projection.totalContributions + projection.totalInterest - projection.totalEventWithdrawals)).toBe(cents(projection.futureValue));
+  });
+
+  it('stops at a fractional horizon with a partial final year', () => {
+    const { yearlyData } = calculateFullProjection(baseParams({ investmentDuration: 2.5 }));
+
+    expect(yearlyData.map(row => row.year)).toEqual([1, 2, 3]);
+    expect(yearlyData[2].contributions).toBe(600);
+  });
+});
+
+describe('calculatePeriodSchedule', () => {
+  it('breaks each year into months that add up to its row', () => {
+    const params = baseParams({ investmentDuration: 3 });
+    const { yearlyData } = calculateFullProjection(params);
+    const periods = calculatePeriodSchedule(params, 'monthly');
+
+    expect(periods).toHaveLength(36);
+    yearlyData.forEach(row => {
+      const months = periods.filter(period => period.year === row.year);
+      expect(months[months.length - 1].endingBalance).toBe(row.endingBalance);
+      expect(cents(months.reduce((total, month) => total + month.interestEarned, 0))).toBe(cents(row.interestEarned));
+    });
+  });
+});
+
+describe('contribution timing', () => {
+  it('compounds yearly deposits made at the start of each year like an annuity due', () => {
+    const params = baseParams({ compoundingFrequency: 'annually', contributionFrequency: 'yearly', contributionAmount: 1200, contributionTiming: 'beginning' });
+    const { futureValue } = calculateFullProjection(params);
+
+    expect(futureValue).toBeCloseTo(10000 * 1.05 ** 10 + (1200 * (1.05 ** 10 - 1) / 0.05) * 1.05, 1);
+  });
+
+  it('earns one more period of interest on each deposit, with the same deposits in total', () => {
+    const end = calculateFullProjection(baseParams({ initialInvestment: 0 }));
+    const beginning = calculateFullProjection(baseParams({ initialInvestment: 0, contributionTiming: 'beginning' }));
+
+    expect(beginning.totalContributions).toBe(end.totalContributions);
+    expect(beginning.futureValue).toBeCloseTo(end.futureValue * (1 + 0.05 / 12), 0);
+  });
+
+  it('puts the first deposit to work from the start date', () => {
+    const firstMonth = (contributionTiming: 'beginning' | 'end') => calculateFullProjection(
+      baseParams({ initialInvestment: 0, interestRate: 12, investmentDuration: 1, contributionTiming }),
+      { arithmetic: 'decimal', roundToCents: true, periodGranularity: 'monthly' }
+    ).periodData![0];
+
+    expect(firstMonth('beginning')).toMatchObject({ contributions: 100, interestEarned: 1, endingBalance: 101 });
+    expect(firstMonth('end')).toMatchObject({ contributions: 100, interestEarned: 0, endingBalance: 100 });
+  });
+});
+
+describe('continuous compounding', () => {
+  const growth = Math.exp(0.05 * 10);
+
+  it('grows a lump sum by e^(rt)', () => {
+    const { futureValue } = calculateFullProjection(baseParams({ contributionAmount: 0, compoundingFrequency: 'continuously' }));
+
+    expect(futureValue).toBeCloseTo(10000 * growth, 1);
+  });
+
+  it('compounds monthly deposits continuously from the day each is made', () => {
+    const { futureValue, yearlyData } = calculateFullProjection(baseParams({ compoundingFrequency: 'continuously' }));
+
+    expect(futureValue).toBeCloseTo(10000 * growth + 100 * (growth - 1) / (Math.exp(0.05 / 12) - 1), 1);
+    expect(yearlyData.map(row => row.contributions)).toEqual(Array(10).fill(1200));
+  });
+
+  it('grows a continuous stream of contributions like the closed-form integral', () => {
+    const { futureValue, yearlyData } = calculateFullProjection(baseParams({ contributionFrequency: 'continuously', contributionAmount: 1200, compoundingFrequency: 'continuously' }));
+
+    expect(futureValue).toBeCloseTo(10000 * growth + 1200 * (growth - 1) / 0.05, 1);
+    expect(yearlyData.map(row => row.contributions)).toEqual(Array(10).fill(1200));
+  });
+
+  it('accrues a stream into discretely compounded interest', () => {
+    const stream = calculateFullProjection(baseParams({ initialInvestment: 0, contributionFrequency: 'continuously', contributionAmount: 1200, compoundingFrequency: 'annually', investmentDuration: 1 }));
+
+    // Half a year of interest on the year's deposits, on average.
+    expect(stream.futureValue).toBeCloseTo(1200 + 1200 * 0.05 / 2, 2);
+  });
+});
+
+describe('inflation-adjusted figures', () => {
+  it('deflates each year-end balance back to the start', () => {
+    const { yearlyData, futureValue, realFutureValue } = calculateFullProjection(baseParams({ inflationRate: 3 }));
+
+    yearlyData.forEach(row => expect(row.realEndingBalance).toBeCloseTo(row.endingBalance / 1.03 ** row.year, 6));
+    expect(realFutureValue).toBeCloseTo(futureValue / 1.03 ** 10, 6);
+  });
+
+  it('deflates each contribution from the date it is made', () => {
+    const { yearlyData, realTotalContributions } = calculateFullProjection(baseParams({ inflationRate: 3, compoundingFrequency: 'annually', contributionFrequency: 'yearly', contributionAmount: 1000, investmentDuration: 3 }));
+
+    expect(yearlyData.map(row => row.realContributions)).toEqual([1000 / 1.03, 1000 / 1.03 ** 2, 1000 / 1.03 ** 3].map(value => expect.closeTo(value, 6)));
+    expect(realTotalContributions).toBeCloseTo(10000 + 1000 / 1.03 + 1000 / 1.03 ** 2 + 1000 / 1.03 ** 3, 6);
+  });
+
+  it('leaves real figures equal to nominal ones without inflation', () => {
+    const projection = calculateFullProjection(baseParams());
+
+    expect(projection.realFutureValue).toBe(projection.futureValue);
+    expect(projection.realTotalContributions).toBe(projection.totalContributions);
+    projection.yearlyData.forEach(row => expect(row.realEndingBalance).toBe(row.endingBalance));
+  });
+
+  it('shows a balance growing at the inflation rate as flat in real terms', () => {
+    const { realFutureValue, realTotalInterest } = calculateFullProjection(baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', interestRate: 3, inflationRate: 3 }));
+
+    // Only the nominal balance's rounding to the cent is left.
+    expect(realFutureValue).toBeCloseTo(10000, 2);
+    expect(realTotalInterest).toBeCloseTo(0, 2);
+  });
+});
+
+describe('tax drag', () => {
+  const oneYear = baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 1, dividendYield: 2, dividendTaxRate: 15 });
+
+  it('taxes the dividend share of a taxable account\'s return at year end and reinvests the rest', () => {
+    const projection = calculateFullProjection({ ...oneYear, accountType: 'taxable' });
+
+    // $500 of return, $200 of it paid out as dividends and taxed at 15%.
+    expect(projection.yearlyData[0]).toMatchObject({ taxesPaid: 30, endingBalance: 10470 });
+    expect(projection.totalTaxesPaid).toBe(30);
+    expect(projection.costBasis).toBe(10170);
+  });
+
+  it.each(['taxDeferred', 'taxFree'] as const)('leaves a %s account to compound untaxed', accountType => {
+    const projection = calculateFullProjection({ ...oneYear, accountType });
+
+    expect(projection.futureValue).toBe(10500);
+    expect(projection.totalTaxesPaid).toBe(0);
+  });
+
+  it('taxes the whole return when the dividend yield exceeds it', () => {
+    const projection = calculateFullProjection({ ...oneYear, accountType: 'taxable', dividendYield: 8 });
+
+    expect(projection.totalTaxesPaid).toBe(75);
+  });
+});
+
+describe('fees', () => {
+  const lumpSum = baseParams({ contributionAmount: 0, investmentDuration: 1 });
+
+  it('takes percentage fees out with the interest on each compounding date', () => {
+    const projection = calculateFullProjection({ ...lumpSum, expenseRatio: 0.6, advisoryFeeRate: 0.4 });
+
+    expect(projection.futureValue).toBeCloseTo(10000 * (1 + 0.04 / 12) ** 12, 2);
+    // A quarter of the net growth: each month's fee is 1% against the 4% net rate, on the same balance.
+    expect(projection.totalFeesPaid).toBeCloseTo((projection.futureValue - 10000) / 4, 1);
+  });
+
+  it('charges percentage fees only for the time each deposit was invested', () => {
+    const { totalFeesPaid } = calculateFullProjection(baseParams({ initialInvestment: 0, interestRate: 0, expenseRatio: 1, compoundingFrequency: 'annually', investmentDuration: 1 }));
+
+    // Deposits at the end of each month are invested for 11, 10, ..., 0 months.
+    expect(totalFeesPaid).toBe(5.5);
+  });
+
+  it('spreads a flat annual fee evenly over the compounding periods', () => {
+    const { futureValue, yearlyData } = calculateFullProjection(
+      { ...lumpSum, interestRate: 0, flatAnnualFee: 120 },
+      { arithmetic: 'decimal', roundToCents: true, periodGranularity: 'monthly' }
+    );
+
+    expect(futureValue).toBe(9880);
+    expect(yearlyData[0].feesPaid).toBe(120);
+  });
+
+  it('reports interest before fees, so each row reconciles with its fees', () => {
+    const { yearlyData } = calculateFullProjection(baseParams({ expenseRatio: 0.5, advisoryFeeRate: 1, flatAnnualFee: 25 }));
+
+    yearlyData.forEach(row => {
+      expect(row.feesPaid).toBeGreaterThan(0);
+      expect(cents(row.startingBalance + row.contributions + row.interestEarned - row.feesPaid!)).toBe(cents(row.endingBalance));
+    });
+  });
+});
+
+describe('rate schedule', () => {
+  const glidePath = { interestRate: 8, rateSchedule: [{ startYear: 16, rate: 5 }, { startYear: 26, rate: 3 }] };
+
+  it.each([[1, 8], [15, 8], [16, 5], [25, 5], [26, 3], [40, 3]])('applies the scheduled rate in year %s', (year, rate) => {
+    expect(getInterestRateForYear(glidePath, year)).toBe(rate);
+  });
+
+  it('switches rate at the start of the scheduled year and shows the rate on each row', () => {
+    const params = baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 4, rateSchedule: [{ startYear: 3, rate: 10 }] });
+    const { yearlyData } = calculateFullProjection(params);
+
+    expect(yearlyData.map(row => row.interestRate)).toEqual([5, 5, 10, 10]);
+    expect(yearlyData[1].endingBalance).toBe(11025);
+    expect(yearlyData[2].interestEarned).toBe(1102.5);
+  });
+
+  it('uses the new rate for every compounding period of its year', () => {
+    const params = baseParams({ contributionAmount: 0, investmentDuration: 2, rateSchedule: [{ startYear: 2, rate: 0 }] });
+    const { yearlyData } = calculateFullProjection(params);
+
+    expect(yearlyData[0].interestEarned).toBeGreaterThan(0);
+    expect(yearlyData[1]).toMatchObject({ interestRate: 0, interestEarned: 0, startingBalance: yearlyData[0].endingBalance });
+  });
+
+  it('applies a change in the partial final year and ignores one after the horizon', () => {
+    const partial = calculateFullProjection(baseParams({ investmentDuration: 2.5, rateSchedule: [{ startYear: 3, rate: 0 }] }));
+    const beyond = calculateFullProjection(baseParams({ investmentDuration: 2, rateSchedule: [{ startYear: 3, rate: 0 }] }));
+
+    expect(partial.yearlyData[2]).toMatchObject({ interestRate: 0, interestEarned: 0 });
+    expect(beyond.futureValue).toBe(calculateFullProjection(baseParams({ investmentDuration: 2 })).futureValue);
+  });
+});
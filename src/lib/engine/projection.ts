@@ -0,0 +1,514 @@
+import type { CashFlowEvent, PeriodData, YearlyData } from '@/types';
+import { createScheduleCalendar, type ScheduleCalendar, type YearFraction } from './calendar';
+import { decimalArithmetic, floatArithmetic, type MoneyArithmetic } from './money';
+import type { EngineWarning, PeriodGranularity, ProjectionOptions, ProjectionParams, ProjectionResult } from './types';
+
+type ScheduleResult = Omit<ProjectionResult, 'realTotalInterest' | 'warnings'>;
+
+const defaultProjectionOptions: ProjectionOptions = { arithmetic: 'decimal', roundToCents: true };
+
+// Year-by-year replacements for the scheduled interest rate and for `inflationRate`, by 0-based year; years past the
+// end of either list keep the scenario's rates. The calendar can be passed in when many paths share it.
+interface ScheduleOverrides {
+  yearlyInterestRates?: number[];
+  yearlyInflationRates?: number[];
+  calendar?: ScheduleCalendar;
+}
+
+const runSchedule = (params: ProjectionParams, { arithmetic, roundToCents, periodGranularity }: ProjectionOptions, overrides: ScheduleOverrides = {}): ScheduleResult =>
+  arithmetic === 'decimal'
+    ? simulateSchedule(params, decimalArithmetic, roundToCents, periodGranularity, overrides)
+    : simulateSchedule(params, floatArithmetic, roundToCents, periodGranularity, overrides);
+
+// Annual rate (in %) for the given 1-based year: the latest rate schedule entry starting on or before it, else
+// `interestRate`.
+export const getInterestRateForYear = ({ interestRate, rateSchedule }: Pick<ProjectionParams, 'interestRate' | 'rateSchedule'>, year: number): number =>
+  rateSchedule.reduce((rate, entry) => (entry.startYear <= year ? entry.rate : rate), interestRate);
+
+interface ScheduledEvent {
+  tick: number;
+  kind: 'deposit' | 'withdrawal' | 'pauseStart' | 'pauseEnd';
+  amount: number;
+}
+
+// Month index from the start of the projection (0 = year 1, month 1).
+const getEventMonth = ({ year, month }: Pick<CashFlowEvent, 'year' | 'month'>): number => (year - 1) * 12 + (month - 1);
+
+// Turns the dated events into tick-stamped steps, in chronological order; a pause becomes a start and an end step.
+const getScheduledEvents = (cashFlowEvents: CashFlowEvent[], toTick: (eventMonth: number) => number): ScheduledEvent[] =>
+  cashFlowEvents
+    .flatMap((event): ScheduledEvent[] => {
+      const eventMonth = getEventMonth(event);
+      if (event.type === 'pauseContributions') {
+        return [
+          { tick: toTick(eventMonth), kind: 'pauseStart', amount: 0 },
+          { tick: toTick(eventMonth + (event.durationMonths ?? 0)), kind: 'pauseEnd', amount: 0 },
+        ];
+      }
+      return [{ tick: toTick(eventMonth), kind: event.type, amount: event.amount ?? 0 }];
+    })
+    .sort((a, b) => a.tick - b.tick);
+
+// Where the periods of the schedule end, before the horizon: every month or compounding date, and every year end so
+// that no period spans two years.
+const getPeriodEndTicks = ({ totalTicks, compoundingTicks, yearEndTicks, getMonthTick }: ScheduleCalendar, granularity: PeriodGranularity): number[] => {
+  const periodEndTicks = granularity === 'compoundingPeriod' && compoundingTicks.length > 0
+    ? compoundingTicks
+    : Array.from({ length: (yearEndTicks.length + 1) * 12 }, (_, monthIndex) => getMonthTick(monthIndex + 1));
+  return [...new Set([...periodEndTicks.filter(tick => tick < totalTicks), ...yearEndTicks])].sort((a, b) => a - b);
+};
+
+/**
+ * Walks the deposit, compounding and year-end dates in chronological order.
+ *
+ * With discrete compounding, interest accrues (simply) on the balance between consecutive dates and is credited on each
+ * compounding date, so deposits that land mid-period earn interest only for the part of the period they were invested.
+ * With continuous compounding the balance grows by e^(r·dt) between dates. A 'continuously' contribution frequency is a
+ * stream of `contributionAmount` per year flowing in between dates rather than on them.
+ *
+ * The contribution steps up at the start of every year: first by `contributionIncreaseRate` percent, then by
+ * `contributionIncreaseAmount` dollars.
+ *
+ * `interestRate` is the gross return, replaced from the start of a year by any `rateSchedule` entry. Percentage fees (`expenseRatio` + `advisoryFeeRate`) accrue on the balance the
+ * same way interest does and `flatAnnualFee` accrues evenly over time; with discrete compounding both are taken out on
+ * each compounding date, with continuous compounding they are a continuous drag.
+ *
+ * Real (today's dollars) figures deflate every amount by `inflationRate` (or each year's own rate, when overridden)
+ * from the date it occurs back to the start.
+ *
+ * In a taxable account the share of each year's return paid out as dividends (`dividendYield` out of `interestRate`)
+ * is taxed at `dividendTaxRate` at year end; the tax is taken from the balance and the rest is reinvested.
+ *
+ * `cashFlowEvents` land at the start of their month: a pause skips every contribution dated within it (and stops a
+ * stream), lump sums are applied after that date's regular deposit. Withdrawals are capped at the balance (rounded
+ * down to the cent) and reduce the cost basis in proportion.
+ *
+ * Money is carried in the given arithmetic. Unless `roundToCents` is off, input amounts and each deposit, tax and
+ * stepped-up contribution are whole cents, and the balance is rounded to the cent at every year end; each row's
+ * `interestEarned` is the balancing figure, so every row reconciles to the cent and the totals are the sums of the rows.
+ * `perPeriodCentRounding` also rounds every credit of interest and charge of fees, as a bank statement would. Real
+ * figures are estimates and are computed in floating point.
+ *
+ * With a `periodGranularity` every year is also broken down into months or compounding periods, reconciled the same
+ * way as the years. Period ends are extra dates on the walk, so with `perPeriodCentRounding` a contribution stream or
+ * continuous compounding is also rounded at each of them.
+ */
+const simulateSchedule = <M>({
+  initialInvestment,
+  contributionAmount,
+  contributionFrequency,
+  contributionTiming,
+  contributionIncreaseRate,
+  contributionIncreaseAmount,
+  interestRate,
+  rateSchedule,
+  cashFlowEvents,
+  investmentDuration,
+  startDate,
+  dayCountConvention,
+  inflationRate,
+  accountType,
+  dividendTaxRate,
+  dividendYield,
+  expenseRatio,
+  advisoryFeeRate,
+  flatAnnualFee,
+  perPeriodCentRounding,
+  compoundingFrequency,
+}: ProjectionParams, m: MoneyArithmetic<M>, roundToCents: boolean, periodGranularity: PeriodGranularity | undefined, {
+  yearlyInterestRates,
+  yearlyInflationRates,
+  calendar = createScheduleCalendar({ startDate, dayCountConvention, compoundingFrequency, contributionFrequency, contributionTiming, investmentDuration }),
+}: ScheduleOverrides): ScheduleResult => {
+  const isContinuousCompounding = compoundingFrequency === 'continuously';
+  const isContributionStream = contributionFrequency === 'continuously';
+  const { totalTicks, compoundingTicks, contributionTicks, yearEndTicks } = calendar;
+
+  const zero = m.of(0);
+  const one = m.of(1);
+  const percent = (value: number) => m.dividedBy(m.of(value), m.of(100));
+  const toCents = (amount: M) => (roundToCents ? m.roundToCents(amount) : amount);
+  const toPeriodCents = (amount: M) => (perPeriodCentRounding ? toCents(amount) : amount);
+  const toCentsBelow = (amount: M) => (roundToCents ? m.roundDownToCents(amount) : amount);
+  const annualFeeRateDecimal = percent(expenseRatio + advisoryFeeRate);
+  const flatAnnualFeeAmount = m.of(flatAnnualFee);
+
+  let currentBalance = toCents(m.of(initialInvestment));
+  let currentContributionAmount = toCents(m.of(contributionAmount));
+  let accruedInterest = zero;
+  let accruedFees = zero;
+  let lastTick = 0;
+  let yearStartTick = 0;
+  let compoundingIndex = 0;
+  let contributionIndex = 0;
+  let yearEndIndex = 0;
+  const periodEndTicks = periodGranularity ? getPeriodEndTicks(calendar, periodGranularity) : [];
+  let periodEndIndex = 0;
+
+  const scheduledEvents = getScheduledEvents(cashFlowEvents, calendar.getMonthTick).filter(event => event.tick < totalTicks);
+  let nextEventIndex = 0;
+  let activePauses = 0;
+
+  const newYearlyData: YearlyData[] = [];
+  let totalContributionsOverall = currentBalance;
+  let realContributionsOverall = m.toNumber(currentBalance);
+  let costBasis = currentBalance;
+  let totalTaxesPaidOverall = zero;
+  let totalFeesPaidOverall = zero;
+  let startingBalanceForYear = currentBalance;
+  let totalInterestThisYear = zero;
+  let totalFeesThisYear = zero;
+  let totalContributionsThisYear = zero;
+  let realContributionsThisYear = 0;
+  let eventDepositsThisYear = zero;
+  let eventWithdrawalsThisYear = zero;
+  let realEventDepositsThisYear = 0;
+  let realEventWithdrawalsThisYear = 0;
+  let totalEventWithdrawalsOverall = zero;
+  let realEventWithdrawalsOverall = 0;
+
+  const periodData: PeriodData[] = [];
+  let periodStartTick = 0;
+  let periodNumber = 0;
+  let startingBalanceForPeriod = currentBalance;
+  let contributionsThisPeriod = zero;
+  let contributionsEarlierThisYear = zero;
+  let feesThisPeriod = zero;
+  let feesEarlierThisYear = zero;
+  let taxesThisPeriod = zero;
+  let eventDepositsThisPeriod = zero;
+  let eventWithdrawalsThisPeriod = zero;
+
+  // Rate-dependent values, reset at the start of every year.
+  let currentInterestRate = 0;
+  let annualInterestRateDecimal = zero;
+  let netAnnualRateDecimal = zero;
+  let distributedShareOfReturn = zero;
+  let inflationLogGrowth = 0;
+  let yearsElapsedAtYearStart = 0;
+  let deflatorAtYearStart = 1;
+  const startYear = (year: number) => {
+    currentInterestRate = yearlyInterestRates?.[year - 1] ?? getInterestRateForYear({ interestRate, rateSchedule }, year);
+    annualInterestRateDecimal = percent(currentInterestRate);
+    netAnnualRateDecimal = m.minus(annualInterestRateDecimal, annualFeeRateDecimal);
+    const dividendShare = accountType === 'taxable' && currentInterestRate > 0 ? m.dividedBy(m.of(dividendYield), m.of(currentInterestRate)) : zero;
+    distributedShareOfReturn = m.lessThan(dividendShare, one) ? dividendShare : one;
+    inflationLogGrowth = Math.log(1 + (yearlyInflationRates?.[year - 1] ?? inflationRate) / 100);
+  };
+  startYear(1);
+
+  // Deflates from the start of the current year at this year's inflation rate, on top of the years before.
+  const deflatorAt = (tick: number) =>
+    deflatorAtYearStart * Math.exp(-inflationLogGrowth * (calendar.getYearsElapsed(tick) - yearsElapsedAtYearStart));
+  const yearsOf = ({ numerator, denominator }: YearFraction) => m.dividedBy(m.of(numerator), m.of(denominator));
+
+  const addContribution = (nominalAmount: M, realAmount: number) => {
+    totalContributionsThisYear = m.plus(totalContributionsThisYear, nominalAmount);
+    contributionsThisPeriod = m.plus(contributionsThisPeriod, nominalAmount);
+    realContributionsThisYear += realAmount;
+    realContributionsOverall += realAmount;
+    costBasis = m.plus(costBasis, nominalAmount);
+  };
+
+  const payTaxOnDistributions = (): M => {
+    if (m.isZero(distributedShareOfReturn) || !m.isPositive(totalInterestThisYear)) return zero;
+    const distributions = m.times(totalInterestThisYear, distributedShareOfReturn);
+    const tax = toCents(m.times(distributions, percent(dividendTaxRate)));
+    currentBalance = m.minus(currentBalance, tax);
+    taxesThisPeriod = m.plus(taxesThisPeriod, tax);
+    costBasis = m.plus(costBasis, m.minus(distributions, tax));
+    return tax;
+  };
+
+  const evolveUntil = (tick: number) => {
+    const startTick = lastTick;
+    lastTick = tick;
+    if (tick <= startTick) return;
+    // Interest accrues over `years` under the day-count convention; streams and flat fees flow over calendar time.
+    const years = yearsOf(calendar.getAccrualFraction(startTick, tick));
+    const elapsedYears = yearsOf(calendar.getElapsedFraction(startTick, tick));
+    const streamPerYear = isContributionStream && activePauses === 0 && m.isPositive(currentContributionAmount) ? currentContributionAmount : zero;
+    const unroundedStream = m.times(streamPerYear, elapsedYears);
+    const streamed = toPeriodCents(unroundedStream);
+    const flatFee = m.times(flatAnnualFeeAmount, elapsedYears);
+    const realStreamed = inflationLogGrowth === 0
+      ? m.toNumber(streamed)
+      : m.toNumber(streamPerYear) * (deflatorAt(startTick) - deflatorAt(tick)) / inflationLogGrowth;
+
+    if (isContinuousCompounding) {
+      // dB/dt = (r - f)·B + stream - flat fee; interest and percentage fees are r and f times the integral of B.
+      const netInflow = m.minus(unroundedStream, flatFee);
+      const netInflowPerYear = m.dividedBy(netInflow, years);
+      let integratedBalance: M;
+      if (m.isZero(netAnnualRateDecimal) || m.isZero(years)) {
+        integratedBalance = m.plus(m.times(currentBalance, years), m.dividedBy(m.times(netInflow, years), m.of(2)));
+      } else {
+        const growth = m.exp(m.times(netAnnualRateDecimal, years));
+        const newBalance = m.plus(m.times(currentBalance, growth), m.dividedBy(m.times(netInflowPerYear, m.minus(growth, one)), netAnnualRateDecimal));
+        integratedBalance = m.dividedBy(m.minus(m.minus(newBalance, currentBalance), netInflow), netAnnualRateDecimal);
+      }
+      const interest = toPeriodCents(m.times(annualInterestRateDecimal, integratedBalance));
+      const fees = toPeriodCents(m.plus(m.times(annualFeeRateDecimal, integratedBalance), flatFee));
+      totalInterestThisYear = m.plus(totalInterestThisYear, interest);
+      totalFeesThisYear = m.plus(totalFeesThisYear, fees);
+      feesThisPeriod = m.plus(feesThisPeriod, fees);
+      currentBalance = m.minus(m.plus(currentBalance, m.plus(streamed, interest)), fees);
+    } else {
+      const integratedBalance = m.plus(m.times(currentBalance, years), m.dividedBy(m.times(unroundedStream, years), m.of(2)));
+      accruedInterest = m.plus(accruedInterest, m.times(annualInterestRateDecimal, integratedBalance));
+      accruedFees = m.plus(accruedFees, m.plus(m.times(annualFeeRateDecimal, integratedBalance), flatFee));
+      currentBalance = m.plus(currentBalance, streamed);
+    }
+    addContribution(streamed, realStreamed);
+  };
+
+  const creditInterest = () => {
+    const interest = toPeriodCents(accruedInterest);
+    const fees = toPeriodCents(accruedFees);
+    currentBalance = m.minus(m.plus(currentBalance, interest), fees);
+    totalInterestThisYear = m.plus(totalInterestThisYear, interest);
+    totalFeesThisYear = m.plus(totalFeesThisYear, fees);
+    feesThisPeriod = m.plus(feesThisPeriod, fees);
+    accruedInterest = zero;
+    accruedFees = zero;
+  };
+
+  const deposit = () => {
+    if (m.isPositive(currentContributionAmount) && activePauses === 0) {
+      currentBalance = m.plus(currentBalance, currentContributionAmount);
+      addContribution(currentContributionAmount, m.toNumber(currentContributionAmount) * deflatorAt(lastTick));
+    }
+  };
+
+  const applyLumpSum = ({ kind, amount: eventAmount }: ScheduledEvent) => {
+    const amount = toCents(m.of(eventAmount));
+    if (kind === 'deposit') {
+      currentBalance = m.plus(currentBalance, amount);
+      realContributionsOverall += m.toNumber(amount) * deflatorAt(lastTick);
+      costBasis = m.plus(costBasis, amount);
+      eventDepositsThisYear = m.plus(eventDepositsThisYear, amount);
+      eventDepositsThisPeriod = m.plus(eventDepositsThisPeriod, amount);
+      realEventDepositsThisYear += m.toNumber(amount) * deflatorAt(lastTick);
+    } else if (kind === 'withdrawal') {
+      if (!m.isPositive(currentBalance) || !m.isPositive(amount)) return;
+      const withdrawn = m.lessThan(amount, currentBalance) ? amount : toCentsBelow(currentBalance);
+      if (!m.isPositive(withdrawn)) return;
+      costBasis = m.times(costBasis, m.minus(one, m.dividedBy(withdrawn, currentBalance)));
+      currentBalance = m.minus(currentBalance, withdrawn);
+      totalEventWithdrawalsOverall = m.plus(totalEventWithdrawalsOverall, withdrawn);
+      realEventWithdrawalsOverall += m.toNumber(withdrawn) * deflatorAt(lastTick);
+      eventWithdrawalsThisYear = m.plus(eventWithdrawalsThisYear, withdrawn);
+      eventWithdrawalsThisPeriod = m.plus(eventWithdrawalsThisPeriod, withdrawn);
+      realEventWithdrawalsThisYear += m.toNumber(withdrawn) * deflatorAt(lastTick);
+    }
+  };
+
+  const closeYear = (year: number) => {
+    const taxesPaid = payTaxOnDistributions();
+    currentBalance = toCents(currentBalance);
+    const contributions = toCents(totalContributionsThisYear);
+    const feesPaid = toCents(totalFeesThisYear);
+    // The balancing figure, so that the row reconciles exactly once the balance has been rounded.
+    const interestEarned = m.minus(
+      m.plus(m.minus(currentBalance, startingBalanceForYear), m.plus(m.plus(feesPaid, taxesPaid), eventWithdrawalsThisYear)),
+      m.plus(contributions, eventDepositsThisYear)
+    );
+    totalContributionsOverall = m.plus(totalContributionsOverall, m.plus(contributions, eventDepositsThisYear));
+    totalFeesPaidOverall = m.plus(totalFeesPaidOverall, feesPaid);
+    totalTaxesPaidOverall = m.plus(totalTaxesPaidOverall, taxesPaid);
+    const periodStartDate = calendar.getDate(yearStartTick);
+    const periodEndDate = calendar.getDate(lastTick);
+    newYearlyData.push({
+      year,
+      ...(periodStartDate && periodEndDate ? { periodStartDate, periodEndDate } : {}),
+      interestRate: currentInterestRate,
+      startingBalance: m.toNumber(startingBalanceForYear),
+      interestEarned: m.toNumber(interestEarned),
+      contributions: m.toNumber(contributions),
+      endingBalance: m.toNumber(currentBalance),
+      realContributions: realContributionsThisYear,
+      realEndingBalance: m.toNumber(currentBalance) * deflatorAt(lastTick),
+      taxesPaid: m.toNumber(taxesPaid),
+      feesPaid: m.toNumber(feesPaid),
+      ...(m.isPositive(eventDepositsThisYear) ? { eventDeposits: m.toNumber(eventDepositsThisYear), realEventDeposits: realEventDepositsThisYear } : {}),
+      ...(m.isPositive(eventWithdrawalsThisYear) ? { eventWithdrawals: m.toNumber(eventWithdrawalsThisYear), realEventWithdrawals: realEventWithdrawalsThisYear } : {}),
+    });
+    startingBalanceForYear = currentBalance;
+    yearStartTick = lastTick;
+    totalInterestThisYear = zero;
+    totalFeesThisYear = zero;
+    totalContributionsThisYear = zero;
+    realContributionsThisYear = 0;
+    eventDepositsThisYear = zero;
+    eventWithdrawalsThisYear = zero;
+    realEventDepositsThisYear = 0;
+    realEventWithdrawalsThisYear = 0;
+    currentContributionAmount = toCents(m.plus(m.times(currentContributionAmount, m.plus(one, percent(contributionIncreaseRate))), m.of(contributionIncreaseAmount)));
+    deflatorAtYearStart = deflatorAt(lastTick);
+    yearsElapsedAtYearStart = calendar.getYearsElapsed(lastTick);
+    startYear(year + 1);
+  };
+
+  // Like closeYear, but mid-year balances are only rounded for the row; the balance itself keeps accruing unrounded.
+  // Contributions and fees are rounded year to date, so that the periods of a year add up to its row.
+  const closePeriod = (year: number) => {
+    const isFirstPeriodOfYear = periodData[periodData.length - 1]?.year !== year;
+    if (isFirstPeriodOfYear) {
+      contributionsEarlierThisYear = zero;
+      feesEarlierThisYear = zero;
+    }
+    const contributionsToDate = m.plus(contributionsEarlierThisYear, contributionsThisPeriod);
+    const feesToDate = m.plus(feesEarlierThisYear, feesThisPeriod);
+    const endingBalance = toCents(currentBalance);
+    const contributions = m.minus(toCents(contributionsToDate), toCents(contributionsEarlierThisYear));
+    const feesPaid = m.minus(toCents(feesToDate), toCents(feesEarlierThisYear));
+    const interestEarned = m.minus(
+      m.plus(m.minus(endingBalance, startingBalanceForPeriod), m.plus(m.plus(feesPaid, taxesThisPeriod), eventWithdrawalsThisPeriod)),
+      m.plus(contributions, eventDepositsThisPeriod)
+    );
+    periodNumber = isFirstPeriodOfYear ? 1 : periodNumber + 1;
+    const periodStartDate = calendar.getDate(periodStartTick);
+    const periodEndDate = calendar.getDate(lastTick);
+    periodData.push({
+      year,
+      period: periodNumber,
+      ...(periodStartDate && periodEndDate ? { periodStartDate, periodEndDate } : {}),
+      startingBalance: m.toNumber(startingBalanceForPeriod),
+      contributions: m.toNumber(contributions),
+      interestEarned: m.toNumber(interestEarned),
+      endingBalance: m.toNumber(endingBalance),
+      taxesPaid: m.toNumber(taxesThisPeriod),
+      feesPaid: m.toNumber(feesPaid),
+      ...(m.isPositive(eventDepositsThisPeriod) ? { eventDeposits: m.toNumber(eventDepositsThisPeriod) } : {}),
+      ...(m.isPositive(eventWithdrawalsThisPeriod) ? { eventWithdrawals: m.toNumber(eventWithdrawalsThisPeriod) } : {}),
+    });
+    startingBalanceForPeriod = endingBalance;
+    periodStartTick = lastTick;
+    contributionsEarlierThisYear = contributionsToDate;
+    contributionsThisPeriod = zero;
+    feesEarlierThisYear = feesToDate;
+    feesThisPeriod = zero;
+    taxesThisPeriod = zero;
+    eventDepositsThisPeriod = zero;
+    eventWithdrawalsThisPeriod = zero;
+  };
+
+  while (true) {
+    const nextEventTick = scheduledEvents[nextEventIndex]?.tick ?? Infinity;
+    const nextCompoundingTick = compoundingTicks[compoundingIndex] ?? Infinity;
+    const nextContributionTick = contributionTicks[contributionIndex] ?? Infinity;
+    const nextYearEndTick = yearEndTicks[yearEndIndex] ?? Infinity;
+    const nextPeriodEndTick = periodEndTicks[periodEndIndex] ?? Infinity;
+    const tick = Math.min(nextCompoundingTick, nextContributionTick, nextYearEndTick, nextEventTick, nextPeriodEndTick);
+    if (tick > totalTicks) break;
+
+    evolveUntil(tick);
+    if (tick === nextCompoundingTick) {
+      creditInterest();
+      compoundingIndex++;
+    }
+
+    const dueEvents: ScheduledEvent[] = [];
+    while (scheduledEvents[nextEventIndex]?.tick === tick) dueEvents.push(scheduledEvents[nextEventIndex++]);
+    // Pauses take effect before this date's deposit, which is dated within (or after) them.
+    for (const event of dueEvents) {
+      if (event.kind === 'pauseStart') activePauses++;
+      if (event.kind === 'pauseEnd') activePauses--;
+    }
+
+    const isContributionDate = tick === nextContributionTick;
+    if (isContributionDate) contributionIndex++;
+
+    // On a year boundary, an end-of-period deposit closes the old year and a beginning-of-period deposit opens the new one.
+    if (isContributionDate && contributionTiming === 'end') deposit();
+    const currentYear = yearEndIndex + 1;
+    if (tick === nextYearEndTick) {
+      yearEndIndex++;
+      closeYear(yearEndIndex);
+    }
+    if (tick === nextPeriodEndTick) {
+      periodEndIndex++;
+      closePeriod(currentYear);
+    }
+    if (isContributionDate && contributionTiming === 'beginning' && tick < totalTicks) deposit();
+    dueEvents.forEach(applyLumpSum);
+  }
+
+  // The horizon may fall between compounding dates (fractional durations): credit what has accrued so far.
+  evolveUntil(totalTicks);
+  if (!m.isZero(accruedInterest) || !m.isZero(accruedFees)) creditInterest();
+  if (totalTicks > 0 && yearEndTicks[yearEndTicks.length - 1] !== totalTicks) {
+    closeYear(yearEndTicks.length + 1);
+    if (periodGranularity) closePeriod(yearEndTicks.length + 1);
+  }
+
+  return {
+    yearlyData: newYearlyData,
+    futureValue: m.toNumber(currentBalance),
+    // Interest net of fees and taxes: the sum of the rows' interest, less their fees and taxes.
+    totalInterest: m.toNumber(m.minus(m.plus(currentBalance, totalEventWithdrawalsOverall), totalContributionsOverall)),
+    totalContributions: m.toNumber(totalContributionsOverall),
+    totalEventWithdrawals: m.toNumber(totalEventWithdrawalsOverall),
+    realFutureValue: m.toNumber(currentBalance) * deflatorAt(totalTicks),
+    realTotalContributions: realContributionsOverall,
+    realTotalEventWithdrawals: realEventWithdrawalsOverall,
+    totalTaxesPaid: m.toNumber(totalTaxesPaidOverall),
+    costBasis: m.toNumber(costBasis),
+    totalFeesPaid: m.toNumber(totalFeesPaidOverall),
+    ...(periodGranularity ? { periodData } : {}),
+  };
+};
+
+export const calculateFullProjection = (params: ProjectionParams, options: ProjectionOptions = defaultProjectionOptions): ProjectionResult => {
+  const warnings: EngineWarning[] = [];
+  const schedule = runSchedule(params, options);
+
+  return {
+    ...schedule,
+    realTotalInterest: schedule.realFutureValue + schedule.realTotalEventWithdrawals - schedule.realTotalContributions,
+    warnings,
+  };
+};
+
+// The projection broken down by month or compounding period; the periods of each year add up to its yearly row.
+export const calculatePeriodSchedule = (params: ProjectionParams, periodGranularity: PeriodGranularity): PeriodData[] =>
+  runSchedule(params, { ...defaultProjectionOptions, periodGranularity }).periodData ?? [];
+
+/**
+ * Without contribution step-ups or one-off events the deposit and compounding calendars repeat identically every year, so one year of the
+ * projection is the affine map
+ * `balance -> balance * balanceGrowth + contributionAmount * depositGrowth + flatAnnualFee * flatFeeGrowth`
+ * (`flatFeeGrowth` is negative). Solvers use this to stay consistent with `calculateFullProjection` whatever the
+ * combination of frequencies.
+ */
+export const getAnnualScheduleFactors = (
+  params: Omit<ProjectionParams, 'initialInvestment' | 'contributionAmount' | 'investmentDuration' | 'contributionIncreaseRate' | 'contributionIncreaseAmount' | 'inflationRate' | 'flatAnnualFee' | 'cashFlowEvents'>
+): { balanceGrowth: number; depositGrowth: number; flatFeeGrowth: number } => {
+  const oneYear = { ...params, investmentDuration: 1, contributionIncreaseRate: 0, contributionIncreaseAmount: 0, inflationRate: 0, cashFlowEvents: [] };
+  // Unit amounts must not be rounded to cents, or the factors would be off by up to half a cent per dollar.
+  const unrounded: ProjectionOptions = { arithmetic: 'decimal', roundToCents: false };
+  return {
+    balanceGrowth: runSchedule({ ...oneYear, initialInvestment: 1, contributionAmount: 0, flatAnnualFee: 0 }, unrounded).futureValue,
+    depositGrowth: runSchedule({ ...oneYear, initialInvestment: 0, contributionAmount: 1, flatAnnualFee: 0 }, unrounded).futureValue,
+    flatFeeGrowth: runSchedule({ ...oneYear, initialInvestment: 0, contributionAmount: 0, flatAnnualFee: 1 }, unrounded).futureValue,
+  };
+};
+
+/**
+ * Runs the projection with a given interest rate (and, optionally, inflation rate) for each year, in place of the
+ * scheduled ones, in a single pass that carries the balance and the stepped-up contribution from year to year. With
+ * the scheduled rates this matches `calculateFullProjection`. Used by simulations and backtests, where returns vary
+ * from year to year; they run many paths over the same dates, so the calendar is built once per scenario.
+ */
+export const createYearlyRatesProjection = (params: ProjectionParams, options: ProjectionOptions = defaultProjectionOptions) => {
+  const calendar = createScheduleCalendar(params);
+  return (yearlyInterestRates: number[], yearlyInflationRates?: number[]): YearlyData[] =>
+    runSchedule(params, options, { yearlyInterestRates, yearlyInflationRates, calendar }).yearlyData;
+};
+
+export const calculateProjectionWithYearlyRates = (
+  params: ProjectionParams,
+  yearlyInterestRates: number[],
+  yearlyInflationRates?: number[],
+  options: ProjectionOptions = defaultProjectionOptions
+): YearlyData[] => createYearlyRatesProjection(params, options)(yearlyInterestRates, yearlyInflationRates);
@@ -0,0 +1,28 @@
+// Small seeded generators so simulations are reproducible from a seed (Math.random cannot be seeded).
+
+// mulberry32: a fast 32-bit PRNG, good enough for simulation (not for cryptography). Returns floats in [0, 1).
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller).
+export const sampleStandardNormal = (random: () => number): number => {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Student-t draw with `degreesOfFreedom` (> 2), rescaled to unit variance so it can replace a standard normal draw
+// with the same volatility but fatter tails.
+export const sampleUnitVarianceStudentT = (random: () => number, degreesOfFreedom: number): number => {
+  let chiSquared = 0;
+  for (let i = 0; i < degreesOfFreedom; i++) chiSquared += sampleStandardNormal(random) ** 2;
+  const t = sampleStandardNormal(random) / Math.sqrt(chiSquared / degreesOfFreedom);
+  return t * Math.sqrt((degreesOfFreedom - 2) / degreesOfFreedom);
+};
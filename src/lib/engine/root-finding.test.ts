@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { findRootInBracket } from './root-finding';
+
+const options = { xTolerance: 1e-12, fTolerance: 1e-12, maxIterations: 100 };
+
+describe('findRootInBracket', () => {
+  it('converges on a root inside the bracket', () => {
+    const f = (x: number) => x ** 3 - 2 * x - 5;
+    const { root, converged, iterations } = findRootInBracket(f, 2, 3, f(2), f(3), options);
+
+    expect(converged).toBe(true);
+    expect(iterations).toBeLessThan(20);
+    expect(root).toBeCloseTo(2.0945514815, 9);
+  });
+
+  it('finds a root at a negative x', () => {
+    const f = (x: number) => Math.exp(x) - 0.5;
+    const { root } = findRootInBracket(f, -99, 10, f(-99), f(10), options);
+
+    expect(root).toBeCloseTo(Math.log(0.5), 9);
+  });
+
+  it('falls back to bisection when steps are not finite', () => {
+    const f = (x: number) => (x < 1 ? -1 : x > 1 ? Infinity : 0);
+    const { root, converged } = findRootInBracket(f, 0, 1000, -1, Infinity, options);
+
+    expect(converged).toBe(true);
+    expect(root).toBeCloseTo(1, 9);
+  });
+
+  it('reports the best estimate as not converged when it runs out of iterations', () => {
+    const f = (x: number) => x ** 3 - 2 * x - 5;
+    const { root, converged, iterations } = findRootInBracket(f, 0, 1000, f(0), f(1000), { ...options, maxIterations: 2 });
+
+    expect(converged).toBe(false);
+    expect(iterations).toBe(2);
+    expect(root).toBeGreaterThanOrEqual(0);
+    expect(root).toBeLessThanOrEqual(1000);
+  });
+});
@@ -0,0 +1,60 @@
+import type { SolverConvergence } from './types';
+
+interface RootFindingOptions {
+  xTolerance: number;
+  fTolerance: number;
+  maxIterations: number;
+}
+
+/**
+ * Brent's method: finds a root of `f` inside a bracket [lower, upper] where `f` changes sign, combining inverse
+ * quadratic interpolation and secant steps with bisection as a fallback, so it converges at least as reliably as
+ * bisection and usually much faster. Steps that come out non-finite (e.g. from an overflowing `f`) fall back to bisection.
+ */
+export const findRootInBracket = (
+  f: (x: number) => number,
+  lower: number,
+  upper: number,
+  fLower: number,
+  fUpper: number,
+  { xTolerance, fTolerance, maxIterations }: RootFindingOptions
+): { root: number } & SolverConvergence => {
+  let a = lower, fa = fLower;
+  let b = upper, fb = fUpper;
+  if (Math.abs(fa) < Math.abs(fb)) [a, fa, b, fb] = [b, fb, a, fa];
+  let c = a, fc = fa;
+  let d = c;
+  let bisected = true;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (Math.abs(fb) <= fTolerance || Math.abs(b - a) <= xTolerance) {
+      return { root: b, converged: true, iterations: iteration };
+    }
+
+    let s = fa !== fc && fb !== fc
+      ? a * fb * fc / ((fa - fb) * (fa - fc)) + b * fa * fc / ((fb - fa) * (fb - fc)) + c * fa * fb / ((fc - fa) * (fc - fb))
+      : b - fb * (b - a) / (fb - fa);
+
+    const quarterPoint = (3 * a + b) / 4;
+    const outsideInterval = !(s > Math.min(quarterPoint, b) && s < Math.max(quarterPoint, b));
+    const tooSlow: boolean = bisected
+      ? Math.abs(s - b) >= Math.abs(b - c) / 2 || Math.abs(b - c) < xTolerance
+      : Math.abs(s - b) >= Math.abs(c - d) / 2 || Math.abs(c - d) < xTolerance;
+    bisected = !isFinite(s) || outsideInterval || tooSlow;
+    if (bisected) s = (a + b) / 2;
+
+    const fs = f(s);
+    d = c;
+    c = b;
+    fc = fb;
+    if (fa * fs < 0) {
+      b = s;
+      fb = fs;
+    } else {
+      a = s;
+      fa = fs;
+    }
+    if (Math.abs(fa) < Math.abs(fb)) [a, fa, b, fb] = [b, fb, a, fa];
+  }
+  return { root: b, converged: false, iterations: maxIterations };
+};
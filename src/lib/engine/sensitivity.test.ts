@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { runSensitivityAnalysis } from './sensitivity';
+import { baseParams } from './test-fixtures';
+
+const interestRateFactorOf = (interestRate: number) =>
+  runSensitivityAnalysis(baseParams({ interestRate }), 10).factors.find(factor => factor.input === 'interestRate')!;
+
+describe('runSensitivityAnalysis', () => {
+  it('moves a positive rate by the percentage of itself', () => {
+    const { low, high } = interestRateFactorOf(7);
+
+    expect(low?.value).toBeCloseTo(6.3, 10);
+    expect(high?.value).toBeCloseTo(7.7, 10);
+  });
+
+  it.each([0, -5])('keeps low below high for a rate of %s%%', interestRate => {
+    const { low, high } = interestRateFactorOf(interestRate);
+
+    expect(low!.value).toBeLessThan(interestRate);
+    expect(high!.value).toBeGreaterThan(interestRate);
+    expect(low!.futureValue).toBeLessThan(high!.futureValue);
+  });
+
+  it('moves a negative rate by the percentage of its magnitude', () => {
+    const { low, high } = interestRateFactorOf(-5);
+
+    expect(low?.value).toBeCloseTo(-5.5, 10);
+    expect(high?.value).toBeCloseTo(-4.5, 10);
+  });
+
+  it('sorts the factors by the width of their swing', () => {
+    const { factors, baseFutureValue } = runSensitivityAnalysis(baseParams(), 10);
+    const swings = factors.map(({ low, high }) => Math.abs((high?.futureValue ?? baseFutureValue) - (low?.futureValue ?? baseFutureValue)));
+
+    expect(swings).toEqual([...swings].sort((a, b) => b - a));
+  });
+});
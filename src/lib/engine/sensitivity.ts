@@ -0,0 +1,101 @@
+import { CompoundingFrequencySchema, type CompoundingFrequency } from '@/types';
+import { calculateFullProjection } from './projection';
+import type { ProjectionOptions, ProjectionParams, RateDurationGrid, RateDurationGridOptions, SensitivityAnalysis, SensitivityFactor } from './types';
+
+// Dozens of what-if runs only feed charts, so they run on floats like the simulations do.
+const WHAT_IF_PROJECTION_OPTIONS: ProjectionOptions = { arithmetic: 'float', roundToCents: true };
+const MIN_INTEREST_RATE = -99;
+const MAX_INVESTMENT_DURATION = 100;
+
+const futureValueOf = (params: ProjectionParams): number => calculateFullProjection(params, WHAT_IF_PROJECTION_OPTIONS).futureValue;
+
+// Moves the whole rate path: the base rate and every scheduled rate change alike.
+const withInterestRates = (params: ProjectionParams, toRate: (rate: number) => number): ProjectionParams => ({
+  ...params,
+  interestRate: toRate(params.interestRate),
+  rateSchedule: params.rateSchedule.map(entry => ({ ...entry, rate: toRate(entry.rate) })),
+});
+
+const compoundingFrequencies = CompoundingFrequencySchema.options;
+
+// The next less and more frequent compounding; null past either end of the list.
+const neighbouringFrequencies = (frequency: CompoundingFrequency): [CompoundingFrequency | null, CompoundingFrequency | null] => {
+  const index = compoundingFrequencies.indexOf(frequency);
+  return [compoundingFrequencies[index - 1] ?? null, compoundingFrequencies[index + 1] ?? null];
+};
+
+/**
+ * One-at-a-time sensitivity of the future value: each numeric input is moved `perturbationPercent` percent down and up
+ * with everything else held, and compounding is moved one step less and more frequent. The interest rate is shifted by
+ * that percentage of its magnitude, so 7% becomes 6.3% and 7.7% at 10% and -5% becomes -5.5% and -4.5%; a rate within
+ * one point of zero is shifted as if it were one point, so a 0% rate still moves (by 0.1 points at 10%). Factors are sorted by how far they swing the future value, widest first,
+ * which is the order of a tornado chart.
+ */
+export const runSensitivityAnalysis = (params: ProjectionParams, perturbationPercent: number): SensitivityAnalysis => {
+  const baseFutureValue = futureValueOf(params);
+  const down = 1 - perturbationPercent / 100;
+  const up = 1 + perturbationPercent / 100;
+
+  const numericFactor = (input: 'initialInvestment' | 'contributionAmount' | 'investmentDuration', maxValue = Infinity): SensitivityFactor => {
+    const lowValue = params[input] * down;
+    const highValue = Math.min(params[input] * up, maxValue);
+    return {
+      input,
+      low: { value: lowValue, futureValue: futureValueOf({ ...params, [input]: lowValue }) },
+      high: { value: highValue, futureValue: futureValueOf({ ...params, [input]: highValue }) },
+    };
+  };
+
+  const interestRateFactor = (): SensitivityFactor => {
+    const rateShift = Math.max(Math.abs(params.interestRate), 1) * perturbationPercent / 100;
+    const shiftRate = (shift: number) => (rate: number) => Math.max(rate + shift, MIN_INTEREST_RATE);
+    return {
+      input: 'interestRate',
+      low: { value: shiftRate(-rateShift)(params.interestRate), futureValue: futureValueOf(withInterestRates(params, shiftRate(-rateShift))) },
+      high: { value: shiftRate(rateShift)(params.interestRate), futureValue: futureValueOf(withInterestRates(params, shiftRate(rateShift))) },
+    };
+  };
+
+  const compoundingFactor = (): SensitivityFactor => {
+    const [lessFrequent, moreFrequent] = neighbouringFrequencies(params.compoundingFrequency);
+    return {
+      input: 'compoundingFrequency',
+      low: lessFrequent && { value: lessFrequent, futureValue: futureValueOf({ ...params, compoundingFrequency: lessFrequent }) },
+      high: moreFrequent && { value: moreFrequent, futureValue: futureValueOf({ ...params, compoundingFrequency: moreFrequent }) },
+    };
+  };
+
+  const swingOf = ({ low, high }: SensitivityFactor) =>
+    Math.abs((high?.futureValue ?? baseFutureValue) - (low?.futureValue ?? baseFutureValue));
+
+  const factors = [
+    interestRateFactor(),
+    numericFactor('contributionAmount'),
+    numericFactor('investmentDuration', MAX_INVESTMENT_DURATION),
+    numericFactor('initialInvestment'),
+    compoundingFactor(),
+  ].sort((a, b) => swingOf(b) - swingOf(a));
+
+  return { baseFutureValue, perturbationPercent, factors };
+};
+
+// `stepsEachSide` values either side of `center`, `step` apart, dropping those outside [min, max].
+const axisAround = (center: number, step: number, stepsEachSide: number, min: number, max: number): number[] =>
+  Array.from({ length: 2 * stepsEachSide + 1 }, (_, index) => center + (index - stepsEachSide) * step)
+    .filter(value => value >= min && value <= max);
+
+/**
+ * Future value over a grid of interest rates (shifted by whole steps, along with any scheduled rate changes) and
+ * investment durations centred on the current ones.
+ */
+export const calculateRateDurationGrid = (
+  params: ProjectionParams,
+  { interestRateStep, investmentDurationStep, stepsEachSide }: RateDurationGridOptions
+): RateDurationGrid => {
+  const interestRates = axisAround(params.interestRate, interestRateStep, stepsEachSide, MIN_INTEREST_RATE, Infinity);
+  const investmentDurations = axisAround(params.investmentDuration, investmentDurationStep, stepsEachSide, Number.EPSILON, MAX_INVESTMENT_DURATION);
+  const futureValues = investmentDurations.map(investmentDuration =>
+    interestRates.map(interestRate =>
+      futureValueOf(withInterestRates({ ...params, investmentDuration }, rate => rate + interestRate - params.interestRate))));
+  return { interestRates, investmentDurations, futureValues };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFullProjection } from './projection';
+import { solveContributionAmount, solveInitialInvestment, solveInterestRate, solveInvestmentDuration } from './solvers';
+import { baseParams } from './test-fixtures';
+import type { ProjectionParams } from './types';
+
+describe('solveInitialInvestment', () => {
+  const withoutInitialInvestment = (params: ProjectionParams): Omit<ProjectionParams, 'initialInvestment'> =>
+    Object.fromEntries(Object.entries(params).filter(([field]) => field !== 'initialInvestment')) as Omit<ProjectionParams, 'initialInvestment'>;
+
+  it('reaches the target when a withdrawal would be capped at a smaller balance', () => {
+    const params = baseParams({ initialInvestment: 0, contributionAmount: 0, cashFlowEvents: [{ type: 'withdrawal', year: 2, month: 1, amount: 5000 }] });
+    const { value } = solveInitialInvestment({ ...withoutInitialInvestment(params), targetFutureValue: 20000 });
+
+    expect(calculateFullProjection({ ...params, initialInvestment: value! }).futureValue).toBeGreaterThanOrEqual(20000);
+    expect(calculateFullProjection({ ...params, initialInvestment: value! - 0.01 }).futureValue).toBeLessThan(20000);
+    expect(calculateFullProjection({ ...params, initialInvestment: value! }).totalEventWithdrawals).toBe(5000);
+  });
+
+  it('solves a plain lump sum exactly', () => {
+    const params = baseParams({ contributionAmount: 0, interestRate: 0 });
+
+    expect(solveInitialInvestment({ ...withoutInitialInvestment(params), targetFutureValue: 12345.67 }).value).toBe(12345.67);
+  });
+});
+
+describe('solveContributionAmount', () => {
+  it.each([3, 7])('reaches the target with a %s%% yearly step-up despite cent rounding', contributionIncreaseRate => {
+    const params = baseParams({ initialInvestment: 1000, interestRate: 7, contributionIncreaseRate });
+    const { value } = solveContributionAmount({ ...params, targetFutureValue: 30000 });
+
+    expect(calculateFullProjection({ ...params, contributionAmount: value! }).futureValue).toBeGreaterThanOrEqual(30000);
+    expect(calculateFullProjection({ ...params, contributionAmount: value! - 0.01 }).futureValue).toBeLessThan(30000);
+  });
+
+  it('solves a flat contribution exactly', () => {
+    const params = baseParams({ initialInvestment: 0, interestRate: 0, investmentDuration: 5 });
+
+    expect(solveContributionAmount({ ...params, targetFutureValue: 6000 }).value).toBe(100);
+  });
+});
+
+describe('solveInvestmentDuration', () => {
+  const withoutDuration = (params: ProjectionParams): Omit<ProjectionParams, 'investmentDuration'> =>
+    Object.fromEntries(Object.entries(params).filter(([field]) => field !== 'investmentDuration')) as Omit<ProjectionParams, 'investmentDuration'>;
+
+  it.each([
+    ['monthly', baseParams()],
+    ['annual', baseParams({ initialInvestment: 5000, compoundingFrequency: 'annually', contributionFrequency: 'yearly', contributionAmount: 1000 })],
+    ['quarterly with fees', baseParams({ compoundingFrequency: 'quarterly', expenseRatio: 0.5, flatAnnualFee: 25 })],
+  ])('returns the shortest duration in hundredths that reaches the target (%s)', (_, params) => {
+    [15000, 19380.33, 40000].forEach(targetFutureValue => {
+      const { value } = solveInvestmentDuration({ ...withoutDuration(params), targetFutureValue });
+
+      expect(Number.isInteger(Math.round(value! * 100))).toBe(true);
+      expect(calculateFullProjection({ ...params, investmentDuration: value! }).futureValue).toBeGreaterThanOrEqual(targetFutureValue);
+      expect(calculateFullProjection({ ...params, investmentDuration: value! - 0.01 }).futureValue).toBeLessThan(targetFutureValue);
+    });
+  });
+
+  it('agrees with the scan used for calendar projections', () => {
+    const params = withoutDuration(baseParams({ compoundingFrequency: 'annually' }));
+
+    expect(solveInvestmentDuration({ ...params, targetFutureValue: 25000 }).value)
+      .toBe(solveInvestmentDuration({ ...params, rateSchedule: [{ startYear: 2, rate: 5 }], targetFutureValue: 25000 }).value);
+  });
+
+  it('reports a target beyond 100 years as unreachable', () => {
+    const { value, warnings } = solveInvestmentDuration({ ...withoutDuration(baseParams({ interestRate: 0 })), targetFutureValue: 1e9 });
+
+    expect(value).toBeNull();
+    expect(warnings[0].code).toBe('unreachable-target');
+  });
+});
+
+describe('solveInterestRate', () => {
+  const withoutRate = (params: ProjectionParams): Omit<ProjectionParams, 'interestRate'> =>
+    Object.fromEntries(Object.entries(params).filter(([field]) => field !== 'interestRate')) as Omit<ProjectionParams, 'interestRate'>;
+  const params = baseParams({ contributionFrequency: 'weekly', contributionAmount: 50 });
+
+  it.each([30000, 40000, 15000, 8000])('returns the lowest rate in hundredths whose projection reaches %s', targetFutureValue => {
+    const { value, convergence } = solveInterestRate({ ...withoutRate(params), targetFutureValue });
+
+    expect(Number.isInteger(Math.round(value! * 100))).toBe(true);
+    expect(calculateFullProjection({ ...params, interestRate: value! }).futureValue).toBeGreaterThanOrEqual(targetFutureValue);
+    expect(calculateFullProjection({ ...params, interestRate: value! - 0.01 }).futureValue).toBeLessThan(targetFutureValue);
+    expect(convergence).toMatchObject({ converged: true });
+  });
+
+  it('warns that a target below the money put in needs a negative return', () => {
+    const { value, warnings } = solveInterestRate({ ...withoutRate(params), targetFutureValue: 15000 });
+
+    expect(value).toBeLessThan(0);
+    expect(warnings.map(warning => warning.code)).toEqual(['negative-rate']);
+  });
+
+  it('widens the search towards the top of the range for very high targets', () => {
+    const { value } = solveInterestRate({ ...withoutRate(baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 5 })), targetFutureValue: 1e10 });
+
+    expect(value).toBeCloseTo(1484.89, 1);
+    expect(calculateFullProjection(baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 5, interestRate: value! })).futureValue).toBeGreaterThanOrEqual(1e10);
+  });
+
+  it('reports targets outside the range of rates', () => {
+    const tooHigh = solveInterestRate({ ...withoutRate(baseParams({ contributionAmount: 0, compoundingFrequency: 'annually', investmentDuration: 1 })), targetFutureValue: 1e7 });
+    const tooLow = solveInterestRate({ ...withoutRate(params), targetFutureValue: 100 });
+
+    expect(tooHigh).toMatchObject({ value: null, warnings: [{ code: 'rate-not-found' }] });
+    expect(tooLow).toMatchObject({ value: null, warnings: [{ code: 'rate-not-found' }] });
+  });
+});
@@ -0,0 +1,278 @@
+import { getContributionsPerYear } from './frequency';
+import { roundUpToCents } from './money';
+import { calculateFullProjection, getAnnualScheduleFactors } from './projection';
+import { findRootInBracket } from './root-finding';
+import type { EngineWarning, ProjectionOptions, ProjectionParams, SolverResult } from './types';
+import { error, info } from './warnings';
+
+type InitialInvestmentSolverInput = Omit<ProjectionParams, 'initialInvestment'> & { targetFutureValue: number };
+type ContributionSolverInput = Omit<ProjectionParams, 'contributionAmount'> & { targetFutureValue: number };
+type DurationSolverInput = Omit<ProjectionParams, 'investmentDuration'> & { targetFutureValue: number };
+type InterestRateSolverInput = Omit<ProjectionParams, 'interestRate'> & { targetFutureValue: number };
+
+// Matches the upper bound InvestmentFormSchema places on investmentDuration.
+const MAX_DURATION_YEARS = 100;
+
+// Search range for the interest rate solver, in %/yr; matches the bounds InvestmentFormSchema places on interestRate.
+const MIN_RATE_PERCENT = -99;
+const MAX_RATE_PERCENT = 10000;
+const INITIAL_UPPER_RATE_PERCENT = 10;
+
+// Cent top-ups of a solved contribution; one or two are needed in practice.
+const MAX_CONTRIBUTION_TOP_UPS = 10;
+// Corrections of a solved initial investment before falling back to a bracketed search.
+const MAX_INITIAL_INVESTMENT_CORRECTIONS = 10;
+
+// The two runs of the affine solvers must not round to cents, or the projection would not be exactly affine.
+const AFFINE_RUN_OPTIONS: ProjectionOptions = { arithmetic: 'decimal', roundToCents: false };
+// Iterative searches run many projections and only need the answer to 2 decimals, so they use floats.
+const SEARCH_RUN_OPTIONS: ProjectionOptions = { arithmetic: 'float', roundToCents: true };
+
+const failed = (warning: EngineWarning, warnings: EngineWarning[] = []): SolverResult => ({
+  value: null,
+  warnings: [...warnings, warning],
+});
+
+// The smallest amount in whole cents whose projection reaches the target, given an amount that falls short of it.
+// The bracket is widened by doubling and then bisected.
+const bisectInitialInvestment = (params: Omit<ProjectionParams, 'initialInvestment'>, targetFutureValue: number, shortAmount: number): number | null => {
+  const reachesTarget = (cents: number) =>
+    calculateFullProjection({ ...params, initialInvestment: cents / 100 }).futureValue >= targetFutureValue;
+
+  let lowCents = Math.round(shortAmount * 100);
+  let highCents = Math.max(lowCents * 2, 100);
+  while (!reachesTarget(highCents)) {
+    if (!isFinite(highCents * 2)) return null;
+    lowCents = highCents;
+    highCents *= 2;
+  }
+  while (highCents - lowCents > 1) {
+    const midCents = Math.floor((lowCents + highCents) / 2);
+    if (reachesTarget(midCents)) {
+      highCents = midCents;
+    } else {
+      lowCents = midCents;
+    }
+  }
+  return highCents / 100;
+};
+
+// Solves for the lump sum to invest at the start. Without one-off withdrawals the projection is affine in the initial
+// investment, so two projections give the answer. A withdrawal is capped at the balance, though, so a small initial
+// investment can make it smaller than it is for the answer: the amount is checked against the reported projection and
+// corrected by the shortfall until it reaches the target.
+export const solveInitialInvestment = ({ targetFutureValue, ...params }: InitialInvestmentSolverInput): SolverResult => {
+  const futureValueOfContributions = calculateFullProjection({ ...params, initialInvestment: 0 }, AFFINE_RUN_OPTIONS).futureValue;
+  const futureValuePerUnitInvested = calculateFullProjection({ ...params, initialInvestment: 1, contributionAmount: 0, flatAnnualFee: 0, cashFlowEvents: [] }, AFFINE_RUN_OPTIONS).futureValue;
+
+  if (futureValueOfContributions >= targetFutureValue) {
+    return { value: 0, warnings: [info('target-already-met', "Calculation Info", "Your contributions alone already reach the target. No initial investment is needed.")] };
+  }
+  if (futureValuePerUnitInvested < 1e-9) {
+    return failed(error('unstable-initial-investment-formula', "Calculation Error", "Cannot calculate initial investment: fees use up the whole balance. Try adjusting interest rate, fees or duration."));
+  }
+  const calculatedInitialInvestment = (targetFutureValue - futureValueOfContributions) / futureValuePerUnitInvested;
+  if (!isFinite(calculatedInitialInvestment)) {
+    return failed(error('invalid-initial-investment', "Calculation Error", "Calculation resulted in an invalid initial investment. Check your inputs."));
+  }
+
+  let estimate = calculatedInitialInvestment;
+  let initialInvestment = roundUpToCents(estimate);
+  for (let correction = 0; correction < MAX_INITIAL_INVESTMENT_CORRECTIONS; correction++) {
+    const shortfall = targetFutureValue - calculateFullProjection({ ...params, initialInvestment }).futureValue;
+    if (shortfall <= 0) return { value: initialInvestment, warnings: [] };
+    estimate += shortfall / futureValuePerUnitInvested;
+    initialInvestment = Math.max(roundUpToCents(estimate), (Math.round(initialInvestment * 100) + 1) / 100);
+  }
+  const searched = bisectInitialInvestment(params, targetFutureValue, initialInvestment);
+  if (searched === null) {
+    return failed(error('invalid-initial-investment', "Calculation Error", "Calculation resulted in an invalid initial investment. Check your inputs."));
+  }
+  return { value: searched, warnings: [] };
+};
+
+// Solves for the (starting) contribution amount per deposit at the user-selected contribution frequency that reaches
+// the target. The unrounded projection is affine in the starting amount, so two projections give the answer to within
+// cent rounding.
+export const solveContributionAmount = ({ targetFutureValue, ...params }: ContributionSolverInput): SolverResult => {
+  const warnings: EngineWarning[] = [];
+
+  if (params.investmentDuration <= 0 || params.investmentDuration * getContributionsPerYear(params.contributionFrequency) < 1) {
+    return failed(error('zero-periods', "Calculation Error", "Investment duration results in zero periods for contribution."));
+  }
+  const futureValueOfInitial = calculateFullProjection({ ...params, contributionAmount: 0 }, AFFINE_RUN_OPTIONS).futureValue;
+  const futureValuePerUnitContribution = calculateFullProjection({
+    ...params,
+    initialInvestment: 0,
+    contributionAmount: 1,
+    contributionIncreaseAmount: 0,
+    flatAnnualFee: 0,
+    cashFlowEvents: params.cashFlowEvents.filter(event => event.type === 'pauseContributions'),
+  }, AFFINE_RUN_OPTIONS).futureValue;
+  if (Math.abs(futureValuePerUnitContribution) < 1e-9) {
+    return failed(error('unstable-contribution-formula', "Calculation Error", "Cannot calculate contribution (potential division by zero or unstable formula). Try adjusting interest rate or duration."));
+  }
+  const calculatedUserAmount = (targetFutureValue - futureValueOfInitial) / futureValuePerUnitContribution;
+
+  if (calculatedUserAmount < 0 || !isFinite(calculatedUserAmount)) {
+    warnings.push(info('target-already-met', "Calculation Alert", "Target is unachievable with positive contributions, or calculation is invalid. Calculated contribution set to 0 for projection. Your target might be too low or already met."));
+    return { value: 0, warnings };
+  }
+
+  // The reported projection rounds every stepped-up contribution and year-end balance to the cent, which can leave it
+  // a little short of the unrounded answer: top the amount up until the rounded projection reaches the target.
+  let contributionAmount = roundUpToCents(calculatedUserAmount);
+  for (let topUp = 0; topUp < MAX_CONTRIBUTION_TOP_UPS; topUp++) {
+    const shortfall = targetFutureValue - calculateFullProjection({ ...params, contributionAmount }).futureValue;
+    if (shortfall <= 0) break;
+    const topUpCents = Math.max(Math.ceil((shortfall / futureValuePerUnitContribution) * 100), 1);
+    contributionAmount = (Math.round(contributionAmount * 100) + topUpCents) / 100;
+  }
+  return { value: contributionAmount, warnings };
+};
+
+// The shortest duration, in whole hundredths of a year, whose projection reaches the target, given whole years
+// `lowYears` (short of it) and `highYears` (reaching it). Durations are only ever rounded up, so the projection of the
+// answer never falls short of the target; the search runs in floats and the answer is checked against the reported
+// (decimal) projection.
+const bisectDuration = (params: Omit<ProjectionParams, 'investmentDuration'>, targetFutureValue: number, lowYears: number, highYears: number): number => {
+  const reachesTarget = (hundredths: number, options?: ProjectionOptions) =>
+    calculateFullProjection({ ...params, investmentDuration: hundredths / 100 }, options).futureValue >= targetFutureValue;
+
+  let lowHundredths = lowYears * 100;
+  let highHundredths = highYears * 100;
+  while (highHundredths - lowHundredths > 1) {
+    const midHundredths = Math.floor((lowHundredths + highHundredths) / 2);
+    if (reachesTarget(midHundredths, SEARCH_RUN_OPTIONS)) {
+      highHundredths = midHundredths;
+    } else {
+      lowHundredths = midHundredths;
+    }
+  }
+  while (highHundredths < MAX_DURATION_YEARS * 100 && !reachesTarget(highHundredths)) highHundredths++;
+  return highHundredths / 100;
+};
+
+// With contribution step-ups, a rate schedule, one-off events or calendar dates (leap years) the yearly growth is no longer the same every year, so the duration is
+// found by scanning the yearly balances of a maximum-length projection and bisecting within the year the target is
+// crossed.
+const solveInvestmentDurationByScan = ({ targetFutureValue, ...params }: DurationSolverInput): SolverResult => {
+  if (targetFutureValue <= params.initialInvestment) {
+    return { value: 0, warnings: [info('target-already-met', "Calculation Info", "Target value already met. Duration is effectively 0.")] };
+  }
+  const { yearlyData } = calculateFullProjection({ ...params, investmentDuration: MAX_DURATION_YEARS }, SEARCH_RUN_OPTIONS);
+  const crossingRow = yearlyData.find(row => row.endingBalance >= targetFutureValue);
+  if (!crossingRow) {
+    return failed(error('unreachable-target', "Calculation Error", `Target cannot be reached within ${MAX_DURATION_YEARS} years with these contributions and interest rate.`));
+  }
+  return { value: bisectDuration(params, targetFutureValue, crossingRow.year - 1, crossingRow.year), warnings: [] };
+};
+
+// Solves for the duration in years (rounded up to 2 decimals) needed to reach the target. Inverting the year-over-year
+// growth of the balance, B(n) = B0 * g^n + A * (g^n - 1) / (g - 1) where A is the year's deposits net of the flat
+// account fee valued at year end, is exact for whole years only: within a year deposits and interest land on their
+// dates. So it only brackets the answer between whole years, within which it is located on the projection itself.
+export const solveInvestmentDuration = ({ targetFutureValue, ...params }: DurationSolverInput): SolverResult => {
+  const warnings: EngineWarning[] = [];
+  const { initialInvestment, contributionAmount } = params;
+
+  if (params.contributionIncreaseRate > 0 || params.contributionIncreaseAmount > 0 || params.rateSchedule.length > 0 || params.cashFlowEvents.length > 0 || params.startDate) {
+    return solveInvestmentDurationByScan({ targetFutureValue, ...params });
+  }
+
+  const { balanceGrowth, depositGrowth, flatFeeGrowth } = getAnnualScheduleFactors(params);
+  const annualDepositValue = contributionAmount * depositGrowth + params.flatAnnualFee * flatFeeGrowth;
+  let estimatedYears: number;
+
+  if (targetFutureValue <= initialInvestment && annualDepositValue <= 0) {
+    warnings.push(info('target-already-met', "Calculation Info", "Target value already met or cannot be reached with non-positive contributions. Duration is effectively 0."));
+    return { value: 0, warnings };
+  } else if (Math.abs(balanceGrowth - 1) < 1e-12) {
+    if (annualDepositValue <= 0 && targetFutureValue > initialInvestment) {
+      return failed(error('unreachable-target', "Calculation Error", "Cannot reach target with 0% interest and no (or negative) contributions."));
+    }
+    estimatedYears = (targetFutureValue - initialInvestment) / annualDepositValue;
+  } else {
+    const valForLogNumerator = (targetFutureValue * (balanceGrowth - 1) + annualDepositValue);
+    const valForLogDenominator = (initialInvestment * (balanceGrowth - 1) + annualDepositValue);
+
+    if (valForLogDenominator === 0 || valForLogNumerator / valForLogDenominator <= 0) {
+      return failed(error('invalid-logarithm', "Calculation Error", "Cannot calculate duration (invalid logarithm due to parameters). Target may be unachievable or parameters lead to an impossible scenario."));
+    }
+    estimatedYears = Math.log(valForLogNumerator / valForLogDenominator) / Math.log(balanceGrowth);
+  }
+
+  if (estimatedYears < 0 || !isFinite(estimatedYears)) {
+    return failed(info('invalid-duration', "Calculation Alert", "Target is likely unachievable or calculation resulted in an invalid duration. Check your inputs."));
+  }
+  if (estimatedYears <= 0) return { value: 0, warnings };
+  if (estimatedYears > MAX_DURATION_YEARS) {
+    return failed(error('unreachable-target', "Calculation Error", `Target cannot be reached within ${MAX_DURATION_YEARS} years with these contributions and interest rate.`));
+  }
+
+  // Cent rounding can move the crossing by a year either way of the estimate.
+  const reachesTargetAfter = (years: number) =>
+    calculateFullProjection({ ...params, investmentDuration: years }, SEARCH_RUN_OPTIONS).futureValue >= targetFutureValue;
+  let lowYears = Math.floor(estimatedYears);
+  while (lowYears > 0 && reachesTargetAfter(lowYears)) lowYears--;
+  let highYears = Math.min(lowYears + 1, MAX_DURATION_YEARS);
+  while (!reachesTargetAfter(highYears)) {
+    if (highYears >= MAX_DURATION_YEARS) {
+      return failed(error('unreachable-target', "Calculation Error", `Target cannot be reached within ${MAX_DURATION_YEARS} years with these contributions and interest rate.`));
+    }
+    lowYears = highYears++;
+  }
+  return { value: bisectDuration(params, targetFutureValue, lowYears, highYears), warnings };
+};
+
+// Solves for the annual interest rate (as a percentage, rounded up to 2 decimals) used until the first rate schedule
+// entry; later scheduled rates stay fixed. The future value rises with the rate, so the target is bracketed between -99% and a widening upper bound, then located with Brent's method.
+export const solveInterestRate = ({ targetFutureValue, ...params }: InterestRateSolverInput): SolverResult => {
+  const warnings: EngineWarning[] = [];
+  const excessOverTarget = (ratePercent: number): number =>
+    calculateFullProjection({ ...params, interestRate: ratePercent }, SEARCH_RUN_OPTIONS).futureValue - targetFutureValue;
+
+  let lowerRate = MIN_RATE_PERCENT;
+  let excessAtLower = excessOverTarget(lowerRate);
+  if (excessAtLower > 0) {
+    return failed(error('rate-not-found', "Calculation Alert", `Target is below what would be left even at a ${MIN_RATE_PERCENT}% annual return. Check your inputs.`));
+  }
+
+  let upperRate = INITIAL_UPPER_RATE_PERCENT;
+  let excessAtUpper = excessOverTarget(upperRate);
+  while (excessAtUpper < 0 && upperRate < MAX_RATE_PERCENT) {
+    lowerRate = upperRate;
+    excessAtLower = excessAtUpper;
+    upperRate = Math.min(upperRate * 4, MAX_RATE_PERCENT);
+    excessAtUpper = excessOverTarget(upperRate);
+  }
+  if (!(excessAtUpper >= 0)) {
+    return failed(error('rate-not-found', "Calculation Alert", `Target cannot be reached with any annual return up to ${MAX_RATE_PERCENT.toLocaleString('en-US')}%. Check your inputs.`));
+  }
+
+  const { root, ...convergence } = findRootInBracket(excessOverTarget, lowerRate, upperRate, excessAtLower, excessAtUpper, {
+    xTolerance: 1e-9,
+    fTolerance: 0.005,
+    maxIterations: 100,
+  });
+
+  if (!isFinite(root)) {
+    return failed(error('rate-out-of-range', "Calculation Alert", "Calculated interest rate is unreasonable or invalid. Please check input parameters."), warnings);
+  }
+  if (!convergence.converged) {
+    warnings.push(info('rate-not-converged', "Calculation Alert", `The interest rate search stopped after ${convergence.iterations} iterations without fully converging; the rate shown is the best estimate.`));
+  }
+  // The rate is rounded up to the hundredth and checked against the reported (decimal) projection, so the projection of
+  // the answer never falls short of the target.
+  const reachesTarget = (hundredths: number) =>
+    calculateFullProjection({ ...params, interestRate: hundredths / 100 }).futureValue >= targetFutureValue;
+  let rateHundredths = Math.ceil(root * 100);
+  while (rateHundredths < MAX_RATE_PERCENT * 100 && !reachesTarget(rateHundredths)) rateHundredths++;
+  while (rateHundredths > MIN_RATE_PERCENT * 100 && reachesTarget(rateHundredths - 1)) rateHundredths--;
+  const interestRate = rateHundredths / 100;
+
+  if (interestRate < 0) {
+    warnings.push(info('negative-rate', "Target Value Alert", "Reaching this target requires a negative return: the investment loses value over the period."));
+  }
+  return { value: interestRate, warnings, convergence };
+};
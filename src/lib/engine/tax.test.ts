@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { calculateWithdrawalTax } from './tax';
+
+const rates = { marginalIncomeTaxRate: 24, capitalGainsTaxRate: 15 };
+
+describe('calculateWithdrawalTax', () => {
+  it('taxes only the growth above the cost basis in a taxable account', () => {
+    expect(calculateWithdrawalTax(15000, 11000, { ...rates, accountType: 'taxable' })).toBe(600);
+  });
+
+  it('taxes the whole balance as income in a tax-deferred account', () => {
+    expect(calculateWithdrawalTax(15000, 11000, { ...rates, accountType: 'taxDeferred' })).toBe(3600);
+  });
+
+  it('charges nothing in a tax-free account', () => {
+    expect(calculateWithdrawalTax(15000, 11000, { ...rates, accountType: 'taxFree' })).toBe(0);
+  });
+
+  it('charges no capital gains tax on a loss', () => {
+    expect(calculateWithdrawalTax(9000, 11000, { ...rates, accountType: 'taxable' })).toBe(0);
+  });
+
+  it('rounds the tax to the cent', () => {
+    expect(calculateWithdrawalTax(100.05, 0, { ...rates, accountType: 'taxDeferred' })).toBe(24.01);
+  });
+});
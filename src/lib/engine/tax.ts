@@ -0,0 +1,23 @@
+import { decimalArithmetic as m } from './money';
+import type { WithdrawalTaxParams } from './types';
+
+const taxAt = (taxableAmount: number, ratePercent: number): number =>
+  taxableAmount > 0 ? m.toNumber(m.roundToCents(m.dividedBy(m.times(m.of(taxableAmount), m.of(ratePercent)), m.of(100)))) : 0;
+
+/**
+ * Tax due if the whole balance is withdrawn at the end of the projection: capital gains tax on unrealized growth for
+ * taxable accounts, income tax on everything for tax-deferred accounts (contributions went in pre-tax), nothing for
+ * tax-free accounts. Rounded to the cent.
+ */
+export const calculateWithdrawalTax = (
+  futureValue: number,
+  costBasis: number,
+  { accountType, marginalIncomeTaxRate, capitalGainsTaxRate }: WithdrawalTaxParams
+): number => {
+  switch (accountType) {
+    case 'taxable': return taxAt(m.toNumber(m.minus(m.of(futureValue), m.of(costBasis))), capitalGainsTaxRate);
+    case 'taxDeferred': return taxAt(futureValue, marginalIncomeTaxRate);
+    case 'taxFree': return 0;
+    default: return 0;
+  }
+};
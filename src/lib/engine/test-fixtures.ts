@@ -0,0 +1,69 @@
+import type { CalculationScenario, ProjectionParams } from './types';
+
+// Plain scenarios for the engine tests: no events, fees, taxes, inflation or step-ups unless a test adds them.
+
+export const baseScenario = (overrides: Partial<CalculationScenario> = {}): CalculationScenario => ({
+  calculationMode: 'futureValue',
+  initialInvestment: 10000,
+  contributionAmount: 100,
+  contributionFrequency: 'monthly',
+  contributionTiming: 'end',
+  contributionIncreaseRate: null,
+  contributionIncreaseAmount: null,
+  interestRate: 5,
+  rateSchedule: [],
+  cashFlowEvents: [],
+  investmentDuration: 10,
+  startDate: null,
+  dayCountConvention: 'actual365',
+  inflationRate: null,
+  accountType: 'taxFree',
+  marginalIncomeTaxRate: null,
+  capitalGainsTaxRate: null,
+  dividendTaxRate: null,
+  dividendYield: null,
+  expenseRatio: null,
+  advisoryFeeRate: null,
+  flatAnnualFee: null,
+  perPeriodCentRounding: false,
+  withdrawalStrategy: 'none',
+  withdrawalAmount: null,
+  withdrawalRate: null,
+  withdrawalDuration: null,
+  monteCarloEnabled: false,
+  returnVolatility: null,
+  returnDistribution: 'normal',
+  simulationCount: null,
+  simulationSeed: null,
+  backtestEnabled: false,
+  stockAllocation: null,
+  bondAllocation: null,
+  targetFutureValue: null,
+  compoundingFrequency: 'monthly',
+  ...overrides,
+});
+
+export const baseParams = (overrides: Partial<ProjectionParams> = {}): ProjectionParams => ({
+  initialInvestment: 10000,
+  contributionAmount: 100,
+  contributionFrequency: 'monthly',
+  contributionTiming: 'end',
+  contributionIncreaseRate: 0,
+  contributionIncreaseAmount: 0,
+  interestRate: 5,
+  rateSchedule: [],
+  cashFlowEvents: [],
+  investmentDuration: 10,
+  startDate: null,
+  dayCountConvention: 'actual365',
+  inflationRate: 0,
+  accountType: 'taxFree',
+  dividendTaxRate: 0,
+  dividendYield: 0,
+  expenseRatio: 0,
+  advisoryFeeRate: 0,
+  flatAnnualFee: 0,
+  perPeriodCentRounding: false,
+  compoundingFrequency: 'monthly',
+  ...overrides,
+});
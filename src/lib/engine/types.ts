@@ -0,0 +1,222 @@
+import type { AccountType, CalculationMode, CashFlowEvent, DayCountConvention, CalculationResults, CompoundingFrequency, ContributionFrequency, ContributionTiming, PeriodData, RateScheduleEntry, ReturnDistribution, WithdrawalStrategy, YearlyData } from '@/types';
+
+// A scenario as entered by the user. Which numeric fields are required depends on the calculation mode;
+// the field being solved for may be null.
+export interface CalculationScenario {
+  calculationMode: CalculationMode;
+  initialInvestment: number | null;
+  contributionAmount: number | null;
+  contributionFrequency: ContributionFrequency;
+  contributionTiming: ContributionTiming;
+  contributionIncreaseRate: number | null; // % step-up applied to the contribution at the start of each year
+  contributionIncreaseAmount: number | null; // fixed $ step-up applied after the percentage step-up
+  interestRate: number | null; // applies until the first rateSchedule entry
+  rateSchedule: RateScheduleEntry[];
+  cashFlowEvents: CashFlowEvent[];
+  investmentDuration: number | null;
+  startDate: string | null; // ISO date; null projects numbered years of 365 days
+  dayCountConvention: DayCountConvention;
+  inflationRate: number | null;
+  accountType: AccountType;
+  marginalIncomeTaxRate: number | null;
+  capitalGainsTaxRate: number | null;
+  dividendTaxRate: number | null;
+  dividendYield: number | null; // share of the annual return paid out (and taxed) as dividends, in % of balance
+  expenseRatio: number | null; // fund expense ratio, %/yr of balance
+  advisoryFeeRate: number | null; // advisory fee on assets under management, %/yr of balance
+  flatAnnualFee: number | null; // fixed account fee, $/yr
+  perPeriodCentRounding: boolean; // round every interest credit and fee charge to the cent, not just year-end balances
+  withdrawalStrategy: WithdrawalStrategy;
+  withdrawalAmount: number | null; // $/yr; the first year's amount for inflation-adjusted withdrawals
+  withdrawalRate: number | null; // % of the balance withdrawn each year
+  withdrawalDuration: number | null; // years; null withdraws until the money runs out
+  monteCarloEnabled: boolean;
+  returnVolatility: number | null; // standard deviation of the yearly return, in %; interestRate is the expected return
+  returnDistribution: ReturnDistribution;
+  simulationCount: number | null;
+  simulationSeed: number | null;
+  backtestEnabled: boolean;
+  stockAllocation: number | null; // % in US stocks for the backtest; bonds as below, cash is the rest
+  bondAllocation: number | null;
+  targetFutureValue: number | null;
+  compoundingFrequency: CompoundingFrequency;
+}
+
+export type ScenarioField = Exclude<keyof CalculationScenario, 'calculationMode'>;
+
+// Fully resolved inputs for a single projection run (after any goal-seek has filled in the missing value).
+export interface ProjectionParams {
+  initialInvestment: number;
+  contributionAmount: number;
+  contributionFrequency: ContributionFrequency;
+  contributionTiming: ContributionTiming;
+  contributionIncreaseRate: number;
+  contributionIncreaseAmount: number;
+  interestRate: number;
+  rateSchedule: RateScheduleEntry[]; // sorted by startYear
+  cashFlowEvents: CashFlowEvent[]; // events dated after the horizon are ignored
+  investmentDuration: number;
+  startDate: string | null;
+  dayCountConvention: DayCountConvention;
+  inflationRate: number;
+  accountType: AccountType;
+  dividendTaxRate: number;
+  dividendYield: number;
+  expenseRatio: number;
+  advisoryFeeRate: number;
+  flatAnnualFee: number;
+  perPeriodCentRounding: boolean;
+  compoundingFrequency: CompoundingFrequency;
+}
+
+// How a projection run does its arithmetic: exact decimals for reported figures, or floats where thousands of runs are
+// needed and results are only summarized.
+export interface ProjectionOptions {
+  arithmetic: 'decimal' | 'float';
+  roundToCents: boolean; // off only for solvers' unit runs, which rely on the projection being affine
+  periodGranularity?: PeriodGranularity; // also break every year down into periods (ProjectionResult.periodData)
+}
+
+// Continuous compounding has no compounding periods; its schedule is broken down by month either way.
+export type PeriodGranularity = 'monthly' | 'compoundingPeriod';
+
+// Rates only needed once the balance is withdrawn at the end of the projection.
+export interface WithdrawalTaxParams {
+  accountType: AccountType;
+  marginalIncomeTaxRate: number;
+  capitalGainsTaxRate: number;
+}
+
+// The decumulation phase that follows the accumulation projection.
+export interface WithdrawalParams {
+  withdrawalStrategy: Exclude<WithdrawalStrategy, 'none'>;
+  withdrawalAmount: number;
+  withdrawalRate: number;
+  withdrawalDuration: number | null;
+}
+
+export interface WithdrawalResult {
+  yearlyData: YearlyData[];
+  totalWithdrawals: number;
+  endingBalance: number;
+  depletionYear: number | null; // last year with money left to withdraw; null if it never runs out
+}
+
+export interface MonteCarloOptions {
+  returnVolatility: number;
+  returnDistribution: ReturnDistribution;
+  simulationCount: number;
+  seed: number;
+}
+
+// Everything a Monte Carlo simulation needs, for running it away from the rest of the calculation (e.g. in a worker).
+export interface MonteCarloRequest {
+  params: ProjectionParams;
+  options: MonteCarloOptions;
+  targetFutureValue: number | null;
+}
+
+export interface CalculationOptions {
+  deferMonteCarlo?: boolean; // leave the simulation to the caller, through `deferredMonteCarlo`
+}
+
+export interface BacktestAllocation {
+  stockAllocation: number;
+  bondAllocation: number;
+}
+
+export type EngineWarningSeverity = 'info' | 'error';
+
+// Surfaced to the caller instead of being shown directly, so the engine stays UI-agnostic.
+// Severity only controls presentation; an aborted calculation is signalled by a null result.
+export interface EngineWarning {
+  code: string;
+  severity: EngineWarningSeverity;
+  title: string;
+  message: string;
+  fieldErrors?: Partial<Record<ScenarioField, string>>;
+}
+
+export interface ProjectionResult {
+  yearlyData: YearlyData[];
+  futureValue: number;
+  totalInterest: number;
+  totalContributions: number; // includes one-off deposits
+  totalEventWithdrawals: number;
+  realFutureValue: number;
+  realTotalInterest: number;
+  realTotalContributions: number;
+  realTotalEventWithdrawals: number;
+  totalTaxesPaid: number;
+  costBasis: number; // contributions plus reinvested after-tax distributions
+  totalFeesPaid: number;
+  periodData?: PeriodData[]; // only with ProjectionOptions.periodGranularity
+  warnings: EngineWarning[];
+}
+
+export interface SolverConvergence {
+  converged: boolean;
+  iterations: number;
+}
+
+export interface SolverResult {
+  value: number | null; // null when the solver could not produce a usable value
+  warnings: EngineWarning[];
+  convergence?: SolverConvergence; // only reported by iterative solvers
+}
+
+// Numeric CalculationResults fields; the nested simulation and backtest summaries are not compared.
+export type ComparableResultField = {
+  [Field in keyof CalculationResults]-?: NonNullable<CalculationResults[Field]> extends number ? Field : never;
+}[keyof CalculationResults];
+
+export interface ResultComparison {
+  field: ComparableResultField;
+  values: (number | null)[]; // one per calculation; null where it does not report the field
+  deltas: (number | null)[]; // value less the first calculation's; the first is always 0 or null
+}
+
+export interface YearlyComparison {
+  year: number;
+  endingBalances: (number | null)[]; // one per calculation; null after its last year
+  differences: (number | null)[];
+}
+
+export type SensitivityInput = 'initialInvestment' | 'contributionAmount' | 'interestRate' | 'investmentDuration' | 'compoundingFrequency';
+
+export interface SensitivityPoint {
+  value: number | CompoundingFrequency; // the moved input
+  futureValue: number;
+}
+
+export interface SensitivityFactor {
+  input: SensitivityInput;
+  low: SensitivityPoint | null; // null when the input cannot move that way (e.g. nothing compounds less often than annually)
+  high: SensitivityPoint | null;
+}
+
+export interface SensitivityAnalysis {
+  baseFutureValue: number;
+  perturbationPercent: number;
+  factors: SensitivityFactor[]; // widest future value swing first
+}
+
+export interface RateDurationGridOptions {
+  interestRateStep: number; // percentage points
+  investmentDurationStep: number; // years
+  stepsEachSide: number;
+}
+
+export interface RateDurationGrid {
+  interestRates: number[]; // ascending
+  investmentDurations: number[]; // ascending
+  futureValues: number[][]; // [durationIndex][rateIndex]
+}
+
+export interface CalculationOutcome {
+  results: CalculationResults | null;
+  yearlyData: YearlyData[];
+  resolvedParams: ProjectionParams | null;
+  deferredMonteCarlo: MonteCarloRequest | null; // set instead of `results.monteCarlo` when the simulation was deferred
+  warnings: EngineWarning[];
+}
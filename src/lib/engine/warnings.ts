@@ -0,0 +1,23 @@
+import type { EngineWarning, ScenarioField } from './types';
+
+export const info = (code: string, title: string, message: string): EngineWarning => ({
+  code,
+  severity: 'info',
+  title,
+  message,
+});
+
+export const error = (
+  code: string,
+  title: string,
+  message: string,
+  fieldErrors?: Partial<Record<ScenarioField, string>>
+): EngineWarning => ({
+  code,
+  severity: 'error',
+  title,
+  message,
+  ...(fieldErrors ? { fieldErrors } : {}),
+});
+
+export const hasError = (warnings: EngineWarning[]): boolean => warnings.some(w => w.severity === 'error');
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFullProjection } from './projection';
+import { baseParams } from './test-fixtures';
+import { projectWithdrawals } from './withdrawals';
+
+describe('projectWithdrawals', () => {
+  it('numbers the years on from a fractional accumulation period with whole years', () => {
+    const params = baseParams({ investmentDuration: 10.05, inflationRate: 3 });
+    const accumulation = calculateFullProjection(params);
+    const { yearlyData } = projectWithdrawals(params, { withdrawalStrategy: 'fixedAmount', withdrawalAmount: 5000, withdrawalRate: 0, withdrawalDuration: 3 }, accumulation.futureValue);
+
+    expect(accumulation.yearlyData[accumulation.yearlyData.length - 1].year).toBe(11);
+    expect(yearlyData.map(row => row.year)).toEqual([12, 13, 14]);
+    expect(yearlyData.map(row => row.elapsedYears)).toEqual([11.05, 12.05, 13.05]);
+  });
+
+  it('deflates by the time elapsed rather than the year number', () => {
+    const params = baseParams({ investmentDuration: 10.5, inflationRate: 3 });
+    const { yearlyData } = projectWithdrawals(params, { withdrawalStrategy: 'fixedAmount', withdrawalAmount: 1000, withdrawalRate: 0, withdrawalDuration: 1 }, 50000);
+
+    expect(yearlyData[0].realEndingBalance).toBeCloseTo(yearlyData[0].endingBalance / 1.03 ** 11.5, 6);
+    expect(yearlyData[0].realWithdrawals).toBeCloseTo(1000 / 1.03 ** 10.5, 6);
+  });
+
+  it('reports the whole year the money runs out in', () => {
+    const params = baseParams({ investmentDuration: 2.5 });
+    const { depletionYear, yearlyData } = projectWithdrawals(params, { withdrawalStrategy: 'fixedAmount', withdrawalAmount: 4000, withdrawalRate: 0, withdrawalDuration: null }, 10000);
+
+    expect(depletionYear).toBe(6);
+    expect(yearlyData[yearlyData.length - 1]).toMatchObject({ year: 6, endingBalance: 0 });
+  });
+
+  it('keeps following the rate schedule after withdrawals start', () => {
+    const params = baseParams({ investmentDuration: 2, rateSchedule: [{ startYear: 4, rate: 2 }] });
+    const { yearlyData } = projectWithdrawals(params, { withdrawalStrategy: 'fixedAmount', withdrawalAmount: 1000, withdrawalRate: 0, withdrawalDuration: 3 }, 10000);
+
+    expect(yearlyData.map(row => [row.year, row.interestRate])).toEqual([[3, 5], [4, 2], [5, 2]]);
+  });
+});
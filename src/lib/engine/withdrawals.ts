@@ -0,0 +1,75 @@
+import type { YearlyData } from '@/types';
+import { addYearsToDate } from './calendar';
+import { decimalArithmetic as m } from './money';
+import { calculateFullProjection, getInterestRateForYear } from './projection';
+import type { ProjectionParams, WithdrawalParams, WithdrawalResult } from './types';
+
+// Upper bound for withdrawing "until the money runs out"; matches the form's limit on withdrawalDuration.
+const MAX_WITHDRAWAL_YEARS = 100;
+
+/**
+ * Continues a projection with yearly withdrawals taken at the start of each year. Each year runs the accumulation
+ * schedule (compounding, fees, dividend tax, scheduled rate for that year) on what is left after the withdrawal,
+ * without further contributions.
+ * Withdrawals are whole cents, capped at the balance; the phase ends after `withdrawalDuration` years or once the money
+ * runs out.
+ */
+export const projectWithdrawals = (
+  params: ProjectionParams,
+  { withdrawalStrategy, withdrawalAmount, withdrawalRate, withdrawalDuration }: WithdrawalParams,
+  startingBalance: number
+): WithdrawalResult => {
+  const yearlyData: YearlyData[] = [];
+  const withdrawalYears = withdrawalDuration ?? MAX_WITHDRAWAL_YEARS;
+  const inflationGrowth = 1 + params.inflationRate / 100;
+  let balance = startingBalance;
+  let totalWithdrawals = m.of(0);
+  let depletionYear: number | null = null;
+  const phaseStartDate = params.startDate && addYearsToDate(params.startDate, params.investmentDuration);
+
+  // A balance grown past the largest number ends the phase; the caller reports it.
+  for (let yearIndex = 0; yearIndex < withdrawalYears && depletionYear === null && isFinite(balance); yearIndex++) {
+    // Numbered on from the last accumulation row, which is a partial year after a fractional duration; inflation runs
+    // on the time actually elapsed.
+    const year = Math.ceil(params.investmentDuration) + yearIndex + 1;
+    const elapsedYears = params.investmentDuration + yearIndex + 1;
+    const plannedWithdrawal = m.roundToCents(
+      withdrawalStrategy === 'fixedPercentage' ? m.dividedBy(m.times(m.of(balance), m.of(withdrawalRate)), m.of(100))
+        : withdrawalStrategy === 'inflationAdjusted' ? m.times(m.of(withdrawalAmount), m.of(inflationGrowth ** yearIndex))
+        : m.of(withdrawalAmount)
+    );
+    const available = m.of(Math.max(balance, 0));
+    const withdrawal = !m.isPositive(plannedWithdrawal) ? m.of(0)
+      : m.lessThan(plannedWithdrawal, available) ? plannedWithdrawal
+      : available;
+
+    const [row] = calculateFullProjection({
+      ...params,
+      initialInvestment: m.toNumber(m.minus(m.of(balance), withdrawal)),
+      contributionAmount: 0,
+      contributionIncreaseAmount: 0,
+      interestRate: getInterestRateForYear(params, year),
+      rateSchedule: [],
+      cashFlowEvents: [],
+      investmentDuration: 1,
+      startDate: phaseStartDate && addYearsToDate(phaseStartDate, yearIndex),
+    }).yearlyData;
+    const endingBalance = Math.max(row.endingBalance, 0);
+
+    yearlyData.push({
+      ...row,
+      year,
+      startingBalance: balance,
+      endingBalance,
+      elapsedYears,
+      realEndingBalance: endingBalance / inflationGrowth ** elapsedYears,
+      withdrawals: m.toNumber(withdrawal),
+      realWithdrawals: m.toNumber(withdrawal) / inflationGrowth ** (elapsedYears - 1),
+    });
+    totalWithdrawals = m.plus(totalWithdrawals, withdrawal);
+    balance = endingBalance;
+    if (balance <= 0 && startingBalance > 0) depletionYear = year;
+  }
+
+  return { yearlyData, totalWithdrawals: m.toNumber(totalWithdrawals), endingBalance: balance, depletionYear };
+};
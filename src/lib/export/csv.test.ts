@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+import type { ExportSheet } from './workbook';
+
+const sheet = (rows: ExportSheet['rows'], name = 'Projection'): ExportSheet => ({ name, rows });
+
+describe('toCsv', () => {
+  it('starts with a byte order mark and ends every row with CRLF', () => {
+    expect(toCsv([sheet([[{ value: 'Year' }, { value: 'Balance' }], [{ value: 1, format: 'year' }, { value: 10511.62, format: 'currency' }]])], 'en-US'))
+      .toBe('\uFEFFYear,Balance\r\n1,10511.62\r\n');
+  });
+
+  it('quotes text holding the delimiter, quotes or line breaks and doubles the quotes inside', () => {
+    const csv = toCsv([sheet([[
+      { value: 'Deposit, yearly' },
+      { value: 'The "safe" rate' },
+      { value: 'Line one\nline two' },
+      { value: 'Carriage\rreturn' },
+      { value: 'Plain; text' },
+    ]])], 'en-US');
+
+    expect(csv).toBe('\uFEFF"Deposit, yearly","The ""safe"" rate","Line one\nline two","Carriage\rreturn",Plain; text\r\n');
+  });
+
+  it('separates with semicolons and writes decimal commas where the locale does', () => {
+    const csv = toCsv([sheet([[
+      { value: 'Balance; after tax' },
+      { value: 'Deposit, yearly' },
+      { value: 1234567.891, format: 'currency' },
+      { value: 4.25, format: 'percentage' },
+    ]])], 'de-DE');
+
+    expect(csv).toBe('\uFEFF"Balance; after tax";Deposit, yearly;1234567,89;4,25\r\n');
+  });
+
+  it('writes numbers without grouping in the digits of their format and leaves empty cells blank', () => {
+    const csv = toCsv([sheet([[
+      { value: 1234567.8, format: 'currency' },
+      { value: 0.123456, format: 'number' },
+      { value: 2030.4, format: 'year' },
+      { value: null },
+      { value: 7 },
+    ]])], 'en-US');
+
+    expect(csv).toBe('\uFEFF1234567.80,0.1235,2030,,7\r\n');
+  });
+
+  it('puts each sheet under its name, with a blank line between sheets', () => {
+    const csv = toCsv([sheet([[{ value: 'Year' }]]), sheet([[{ value: 'Month' }]], 'Monthly, "detailed"')], 'en-US');
+
+    expect(csv).toBe('\uFEFFProjection\r\nYear\r\n\r\n"Monthly, ""detailed"""\r\nMonth\r\n');
+  });
+});
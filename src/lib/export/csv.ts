@@ -0,0 +1,41 @@
+import type { CellFormat, ExportCell, ExportSheet } from './workbook';
+
+// Spreadsheet apps split CSV on the list separator of the user's locale, which is ";" wherever the decimal separator
+// is ",". Numbers are written in the locale's notation without grouping so they are read back as numbers.
+const getDecimalSeparator = (locale: string) =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value ?? '.';
+
+const fractionDigits: Record<CellFormat, { minimumFractionDigits: number; maximumFractionDigits: number }> = {
+  text: { minimumFractionDigits: 0, maximumFractionDigits: 20 },
+  currency: { minimumFractionDigits: 2, maximumFractionDigits: 2 },
+  percentage: { minimumFractionDigits: 0, maximumFractionDigits: 4 },
+  number: { minimumFractionDigits: 0, maximumFractionDigits: 4 },
+  year: { minimumFractionDigits: 0, maximumFractionDigits: 0 },
+  date: { minimumFractionDigits: 0, maximumFractionDigits: 0 },
+};
+
+const quote = (text: string, delimiter: string) =>
+  text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+/**
+ * Renders the sheets as one CSV file for the given locale, one section per sheet under its name. Starts with a byte
+ * order mark so Excel reads the file as UTF-8.
+ */
+export const toCsv = (sheets: ExportSheet[], locale: string): string => {
+  const delimiter = getDecimalSeparator(locale) === ',' ? ';' : ',';
+  const formatters = new Map<CellFormat, Intl.NumberFormat>();
+  const formatCell = ({ value, format = 'text' }: ExportCell) => {
+    if (value === null) return '';
+    if (typeof value === 'string') return quote(value, delimiter);
+    if (!formatters.has(format)) {
+      formatters.set(format, new Intl.NumberFormat(locale, { useGrouping: false, ...fractionDigits[format] }));
+    }
+    return quote(formatters.get(format)!.format(value), delimiter);
+  };
+
+  const sections = sheets.map(sheet => {
+    const rows = sheets.length > 1 ? [[{ value: sheet.name }], ...sheet.rows] : sheet.rows;
+    return rows.map(row => row.map(formatCell).join(delimiter)).join('\r\n');
+  });
+  return `\uFEFF${sections.join('\r\n\r\n')}\r\n`;
+};
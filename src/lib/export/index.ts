@@ -0,0 +1,15 @@
+/**
+ * @fileOverview Spreadsheet and PDF export of a projection.
+ *
+ * - buildProjectionWorkbook - Lays out the inputs, results, yearly table and per-period schedule as sheets.
+ * - toCsv - Renders the sheets as a CSV file in the user's locale.
+ * - toXlsx - Renders the sheets as an Excel workbook (with ExcelJS, loaded on first use).
+ * - toPdfReport - Lays out a calculation report (summary, chart, table, tips, assumptions) as a paginated PDF (with pdf-lib, loaded on first use).
+ */
+
+export { buildProjectionWorkbook } from './workbook';
+export { toCsv } from './csv';
+export { toXlsx } from './xlsx';
+export { formatReportAxisValue, toPdfReport } from './report';
+export type { CellFormat, ExportCell, ExportSheet, ExportSummaryRow, ProjectionExport } from './workbook';
+export type { ReportChartSeries, ReportContent, ReportFigure } from './report';
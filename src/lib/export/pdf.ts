@@ -0,0 +1,104 @@
+import type { PDFFont, PDFPage } from 'pdf-lib';
+
+// A thin layer over pdf-lib (loaded only when a PDF is made) for laying out a text-and-line-art report on A4 pages
+// with the standard Helvetica fonts. Coordinates are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+const BLACK: PdfColor = [0, 0, 0];
+
+type StrokeOptions = { color?: PdfColor; width?: number; dash?: number };
+
+/** Drawing operations on one page. */
+export interface PdfPage {
+  text: (value: string, x: number, y: number, options: { size: number; font?: PdfFont; color?: PdfColor; align?: 'left' | 'right' | 'center' }) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: StrokeOptions) => void;
+  polyline: (points: [number, number][], options?: StrokeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, fill: PdfColor) => void;
+}
+
+export interface PdfDocument {
+  addPage: () => PdfPage;
+  /** Width of a line of text in points. */
+  measureText: (text: string, size: number, font?: PdfFont) => number;
+  /** Breaks text into lines no wider than `maxWidth`, at spaces where possible. */
+  wrapText: (text: string, size: number, maxWidth: number, font?: PdfFont) => string[];
+  save: () => Promise<Uint8Array>;
+}
+
+// Stand-ins for characters the standard fonts cannot show; anything else they cannot show prints as "?".
+const substitutes: Record<string, string> = { '−': '-', '\u00a0': ' ', '\u202f': ' ' };
+
+export const createPdfDocument = async (title: string): Promise<PdfDocument> => {
+  const { PDFDocument, StandardFonts, rgb } = await import('pdf-lib');
+  const document = await PDFDocument.create();
+  document.setTitle(title);
+  document.setProducer('Compounding$');
+  const fonts: Record<PdfFont, PDFFont> = {
+    regular: await document.embedFont(StandardFonts.Helvetica),
+    bold: await document.embedFont(StandardFonts.HelveticaBold),
+  };
+  const characterSet = new Set(fonts.regular.getCharacterSet());
+  const toPrintable = (text: string) =>
+    Array.from(text, char => {
+      const printable = substitutes[char] ?? char;
+      return characterSet.has(printable.codePointAt(0)!) ? printable : '?';
+    }).join('');
+  const toRgb = ([r, g, b]: PdfColor) => rgb(r, g, b);
+
+  const measureText: PdfDocument['measureText'] = (text, size, font = 'regular') =>
+    fonts[font].widthOfTextAtSize(toPrintable(text), size);
+
+  const createPage = (page: PDFPage): PdfPage => {
+    const polyline: PdfPage['polyline'] = (points, { color = BLACK, width = 0.5, dash } = {}) => {
+      if (points.length < 2) return;
+      // SVG paths are drawn downwards from the given origin, so the top-left corner makes them use page coordinates.
+      page.drawSvgPath(points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`).join(' '), {
+        x: 0,
+        y: PAGE_HEIGHT,
+        borderColor: toRgb(color),
+        borderWidth: width,
+        borderDashArray: dash ? [dash] : undefined,
+      });
+    };
+
+    return {
+      text: (value, x, y, { size, font = 'regular', color = BLACK, align = 'left' }) => {
+        const text = toPrintable(value);
+        const width = align === 'left' ? 0 : measureText(text, size, font);
+        const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+        page.drawText(text, { x: left, y: PAGE_HEIGHT - y, size, font: fonts[font], color: toRgb(color) });
+      },
+      line: (x1, y1, x2, y2, options) => polyline([[x1, y1], [x2, y2]], options),
+      polyline,
+      rect: (x, y, width, height, fill) => {
+        page.drawRectangle({ x, y: PAGE_HEIGHT - y - height, width, height, color: toRgb(fill) });
+      },
+    };
+  };
+
+  return {
+    addPage: () => createPage(document.addPage([PAGE_WIDTH, PAGE_HEIGHT])),
+    measureText,
+    wrapText: (text, size, maxWidth, font = 'regular') => {
+      const lines: string[] = [];
+      let line = '';
+      for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measureText(candidate, size, font) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      if (line) lines.push(line);
+      return lines.length > 0 ? lines : [''];
+    },
+    save: () => document.save(),
+  };
+};
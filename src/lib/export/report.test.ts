@@ -0,0 +1,72 @@
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { describe, expect, it } from 'vitest';
+import { toPdfReport, type ReportContent } from './report';
+
+const report: ReportContent = {
+  title: 'Investment Report - Future Value',
+  generatedAt: new Date(2025, 0, 15),
+  summary: [
+    { label: 'Future Value', value: '$28,729.53' },
+    { label: 'Total Contributions', value: '$22,000.00' },
+    { label: 'Total Interest Earned', value: '$6,729.53' },
+  ],
+  chart: {
+    labels: ['Start', 'Year 1', 'Year 2', 'Year 3'],
+    series: [
+      { name: 'Balance', color: '#15803d', values: [10000, 11700, 13500, 15400] },
+      { name: 'Contributions', color: '#2563eb', dashed: true, values: [10000, 11200, 12400, 13600] },
+    ],
+  },
+  table: {
+    headers: ['Year', 'Contributions', 'Interest Earned', 'Ending Balance'],
+    rows: Array.from({ length: 80 }, (_, index) => [`Year ${index + 1}`, '$1,200.00', '$512.34', `$${(10000 + index * 1700).toLocaleString('en-US')}.00`]),
+  },
+  tips: [{ title: 'Start early', description: 'Time in the market lets returns compound on earlier returns.' }],
+  assumptions: ['Returns of 5% a year, compounded monthly.', 'Fees of −0.5% ≈ half a percent.'],
+  disclaimer: 'For illustration only. Not financial advice.',
+};
+
+// The text on each page of the PDF as a PDF reader extracts it, one drawn string per line.
+const readPages = async (bytes: Uint8Array) => {
+  const document = await getDocument({ data: bytes, standardFontDataUrl: 'node_modules/pdfjs-dist/standard_fonts/' }).promise;
+  const { info } = await document.getMetadata();
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const content = await (await document.getPage(pageNumber)).getTextContent();
+    pages.push(content.items.flatMap(item => ('str' in item && item.str.trim() ? [item.str] : [])).join('\n'));
+  }
+  await document.destroy();
+  return { title: (info as { Title?: string }).Title, pages };
+};
+
+describe('toPdfReport', () => {
+  it('writes a PDF that a reader opens with the report text on numbered pages', async () => {
+    const { title, pages } = await readPages(await toPdfReport(report));
+
+    expect(title).toBe(report.title);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages[0]).toContain(report.title);
+    expect(pages[0]).toContain('Generated January 15, 2025');
+    report.summary.forEach(figure => expect(pages[0]).toContain(figure.value));
+    pages.forEach((page, index) => {
+      expect(page).toContain(report.disclaimer);
+      expect(page).toContain(`Page ${index + 1} of ${pages.length}`);
+    });
+  });
+
+  it('includes every table row, repeating the header on each page it continues onto', async () => {
+    const { pages } = await readPages(await toPdfReport(report));
+    const text = pages.join('\n');
+
+    report.table.rows.forEach(row => expect(text).toContain(row.join('\n')));
+    const pagesWithRows = pages.filter(page => /Year \d+\n\$1,200\.00/.test(page));
+    expect(pagesWithRows.length).toBeGreaterThan(1);
+    pagesWithRows.forEach(page => expect(page).toContain(report.table.headers.join('\n')));
+  });
+
+  it('prints characters the fonts lack as close stand-ins or question marks', async () => {
+    const { pages } = await readPages(await toPdfReport(report));
+
+    expect(pages[pages.length - 1]).toContain('Fees of -0.5% ? half a percent.');
+  });
+});
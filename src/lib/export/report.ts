@@ -0,0 +1,207 @@
+import { format } from 'date-fns';
+import { createPdfDocument, PAGE_HEIGHT, PAGE_WIDTH, type PdfColor, type PdfPage } from './pdf';
+
+// A calculation report as shown in the printable report view and laid out as a PDF. Figures arrive already
+// formatted for display, except the chart's values.
+
+export interface ReportFigure {
+  label: string;
+  value: string;
+}
+
+export interface ReportChartSeries {
+  name: string;
+  color: string; // hex, e.g. "#15803d"
+  dashed?: boolean;
+  values: (number | null)[];
+}
+
+export interface ReportContent {
+  title: string;
+  generatedAt: Date;
+  summary: ReportFigure[];
+  chart: { labels: string[]; series: ReportChartSeries[] };
+  table: { headers: string[]; rows: string[][] };
+  tips: { title: string; description: string }[];
+  assumptions: string[];
+  disclaimer: string;
+}
+
+export const formatReportAxisValue = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADING_COLOR: PdfColor = [0.08, 0.5, 0.24];
+const MUTED_COLOR: PdfColor = [0.4, 0.4, 0.4];
+const RULE_COLOR: PdfColor = [0.8, 0.8, 0.8];
+const TABLE_HEADER_FILL: PdfColor = [0.93, 0.95, 0.93];
+
+const hexToColor = (hex: string): PdfColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+// Up to `count` round gridline values from zero to at least `max`.
+const niceTicks = (max: number, count = 4) => {
+  const rawStep = max / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep) ?? rawStep;
+  return Array.from({ length: Math.ceil(max / step) + 1 }, (_, index) => index * step);
+};
+
+/** Lays the report out on A4 pages, with the disclaimer and page numbers in the footer of each page. */
+export const toPdfReport = async (report: ReportContent): Promise<Uint8Array> => {
+  const document = await createPdfDocument(report.title);
+  const { measureText, wrapText } = document;
+  const disclaimerLines = wrapText(report.disclaimer, 7, CONTENT_WIDTH);
+  const bottom = PAGE_HEIGHT - MARGIN - disclaimerLines.length * 9 - 16;
+
+  const pages: PdfPage[] = [];
+  let page = document.addPage();
+  let y = MARGIN;
+  pages.push(page);
+
+  const newPage = () => {
+    page = document.addPage();
+    pages.push(page);
+    y = MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) newPage();
+  };
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y += 14;
+    page.text(text, MARGIN, y, { size: 12, font: 'bold', color: HEADING_COLOR });
+    y += 5;
+    page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: HEADING_COLOR, width: 0.75 });
+    y += 14;
+  };
+  const paragraph = (text: string, options: { size: number; indent?: number; font?: 'regular' | 'bold'; color?: PdfColor }) => {
+    const { size, indent = 0, font = 'regular', color } = options;
+    wrapText(text, size, CONTENT_WIDTH - indent, font).forEach(line => {
+      ensureSpace(size * 1.4);
+      page.text(line, MARGIN + indent, y, { size, font, color });
+      y += size * 1.4;
+    });
+  };
+
+  page.text(report.title, MARGIN, y + 14, { size: 18, font: 'bold' });
+  y += 30;
+  page.text(`Generated ${format(report.generatedAt, 'MMMM d, yyyy')}`, MARGIN, y, { size: 9, color: MUTED_COLOR });
+  y += 10;
+
+  heading('Results Summary');
+  const figureWidth = CONTENT_WIDTH / 3;
+  report.summary.forEach((figure, index) => {
+    const column = index % 3;
+    if (column === 0 && index > 0) y += 34;
+    if (column === 0) ensureSpace(34);
+    page.text(figure.label, MARGIN + column * figureWidth, y, { size: 8, color: MUTED_COLOR });
+    page.text(figure.value, MARGIN + column * figureWidth, y + 15, { size: 12, font: 'bold' });
+  });
+  y += 34;
+
+  if (report.chart.labels.length > 1) {
+    heading('Growth Over Time');
+    ensureSpace(230);
+    const left = MARGIN + 48;
+    const width = CONTENT_WIDTH - 48;
+    const height = 180;
+    const top = y;
+    const values = report.chart.series.flatMap(series => series.values.filter((value): value is number => value !== null));
+    const ticks = niceTicks(Math.max(...values, 1));
+    const maxTick = ticks[ticks.length - 1];
+    const xFor = (index: number) => left + (index / (report.chart.labels.length - 1)) * width;
+    const yFor = (value: number) => top + height - (Math.max(value, 0) / maxTick) * height;
+
+    ticks.forEach(tick => {
+      page.line(left, yFor(tick), left + width, yFor(tick), { color: RULE_COLOR });
+      page.text(formatReportAxisValue(tick), left - 6, yFor(tick) + 3, { size: 7, color: MUTED_COLOR, align: 'right' });
+    });
+    const labelEvery = Math.ceil(report.chart.labels.length / 8);
+    report.chart.labels.forEach((label, index) => {
+      if (index % labelEvery === 0 || index === report.chart.labels.length - 1) {
+        page.text(label, xFor(index), top + height + 12, { size: 7, color: MUTED_COLOR, align: 'center' });
+      }
+    });
+    report.chart.series.forEach(series => {
+      const points = series.values.flatMap((value, index): [number, number][] => value === null ? [] : [[xFor(index), yFor(value)]]);
+      page.polyline(points, { color: hexToColor(series.color), width: 1.5, dash: series.dashed ? 3 : undefined });
+    });
+
+    let legendX = left;
+    const legendY = top + height + 28;
+    report.chart.series.forEach(series => {
+      page.line(legendX, legendY - 3, legendX + 14, legendY - 3, { color: hexToColor(series.color), width: 1.5, dash: series.dashed ? 3 : undefined });
+      page.text(series.name, legendX + 18, legendY, { size: 8 });
+      legendX += 30 + measureText(series.name, 8);
+    });
+    y = legendY + 10;
+  }
+
+  if (report.table.rows.length > 0) {
+    heading('Yearly Projection');
+    const columnCount = report.table.headers.length;
+    const firstColumnWidth = (CONTENT_WIDTH / (columnCount + 0.5)) * 1.5;
+    const columnWidth = (CONTENT_WIDTH - firstColumnWidth) / Math.max(columnCount - 1, 1);
+    const cellRight = (column: number) => MARGIN + firstColumnWidth + column * columnWidth - 4;
+    const rowHeight = 13;
+
+    const tableHeader = () => {
+      const lines = report.table.headers.map((header, column) => wrapText(header, 7, (column === 0 ? firstColumnWidth : columnWidth) - 6, 'bold'));
+      const height = Math.max(...lines.map(headerLines => headerLines.length)) * 9 + 6;
+      page.rect(MARGIN, y, CONTENT_WIDTH, height, TABLE_HEADER_FILL);
+      lines.forEach((headerLines, column) => headerLines.forEach((line, index) => {
+        const lineY = y + 10 + index * 9;
+        if (column === 0) page.text(line, MARGIN + 4, lineY, { size: 7, font: 'bold' });
+        else page.text(line, cellRight(column), lineY, { size: 7, font: 'bold', align: 'right' });
+      }));
+      y += height;
+    };
+
+    ensureSpace(rowHeight * 3);
+    tableHeader();
+    report.table.rows.forEach(row => {
+      if (y + rowHeight > bottom) {
+        newPage();
+        tableHeader();
+      }
+      row.forEach((cell, column) => {
+        if (column === 0) page.text(cell, MARGIN + 4, y + 9, { size: 7.5 });
+        else page.text(cell, cellRight(column), y + 9, { size: 7.5, align: 'right' });
+      });
+      y += rowHeight;
+      page.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { color: RULE_COLOR, width: 0.25 });
+    });
+  }
+
+  if (report.tips.length > 0) {
+    heading('Investment Tips');
+    report.tips.forEach(tip => {
+      ensureSpace(30);
+      paragraph(tip.title, { size: 10, font: 'bold' });
+      paragraph(tip.description, { size: 9 });
+      y += 6;
+    });
+  }
+
+  heading('Assumptions');
+  report.assumptions.forEach(assumption => {
+    ensureSpace(13);
+    page.text('•', MARGIN, y, { size: 9 });
+    paragraph(assumption, { size: 9, indent: 10 });
+  });
+
+  pages.forEach((footerPage, index) => {
+    const footerTop = PAGE_HEIGHT - MARGIN - disclaimerLines.length * 9;
+    footerPage.line(MARGIN, footerTop - 6, MARGIN + CONTENT_WIDTH, footerTop - 6, { color: RULE_COLOR });
+    disclaimerLines.forEach((line, lineIndex) => {
+      footerPage.text(line, MARGIN, footerTop + 4 + lineIndex * 9, { size: 7, color: MUTED_COLOR });
+    });
+    footerPage.text(`Page ${index + 1} of ${pages.length}`, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - MARGIN + 14, { size: 7, color: MUTED_COLOR, align: 'right' });
+  });
+
+  return document.save();
+};
@@ -0,0 +1,121 @@
+import { format, parseISO, subDays } from 'date-fns';
+import type { PeriodData, YearlyData } from '@/types';
+
+// A format-neutral spreadsheet: named sheets of typed cells that the CSV and XLSX writers render. Percentages are
+// held as shown in the app (7 for 7%) and dates as ISO strings.
+
+export type CellFormat = 'text' | 'currency' | 'percentage' | 'number' | 'year' | 'date';
+
+export interface ExportCell {
+  value: string | number | null;
+  format?: CellFormat;
+  bold?: boolean;
+}
+
+export interface ExportSheet {
+  name: string;
+  rows: ExportCell[][];
+}
+
+// One labelled figure in the header block, e.g. an input parameter or a result.
+export interface ExportSummaryRow {
+  label: string;
+  value: string | number | null;
+  format: CellFormat;
+}
+
+export interface ProjectionExport {
+  title: string;
+  exportedAt: Date;
+  inputs: ExportSummaryRow[];
+  summary: ExportSummaryRow[];
+  yearlyData: YearlyData[];
+  // The finer schedule, when one has been worked out, and what a period is ("Month", "Period").
+  periodData?: PeriodData[];
+  periodLabel?: string;
+}
+
+interface Column<Row> {
+  header: string;
+  format: CellFormat;
+  value: (row: Row) => string | number | undefined;
+}
+
+// Period end dates are exclusive in the data; spreadsheets show the last day of the period.
+const lastDayOf = (periodEndDate: string | undefined) =>
+  periodEndDate ? format(subDays(parseISO(periodEndDate), 1), 'yyyy-MM-dd') : undefined;
+
+const yearlyColumns: Column<YearlyData>[] = [
+  { header: 'Year', format: 'number', value: row => row.year },
+  { header: 'Start Date', format: 'date', value: row => row.periodStartDate },
+  { header: 'End Date', format: 'date', value: row => lastDayOf(row.periodEndDate) },
+  { header: 'Interest Rate', format: 'percentage', value: row => row.interestRate },
+  { header: 'Starting Balance', format: 'currency', value: row => row.startingBalance },
+  { header: 'Contributions', format: 'currency', value: row => row.contributions },
+  { header: 'One-off Deposits', format: 'currency', value: row => row.eventDeposits },
+  { header: 'One-off Withdrawals', format: 'currency', value: row => row.eventWithdrawals },
+  { header: 'Withdrawals', format: 'currency', value: row => row.withdrawals },
+  { header: 'Interest Earned', format: 'currency', value: row => row.interestEarned },
+  { header: 'Fees Paid', format: 'currency', value: row => row.feesPaid },
+  { header: 'Taxes Paid', format: 'currency', value: row => row.taxesPaid },
+  { header: 'Ending Balance', format: 'currency', value: row => row.endingBalance },
+  { header: "Contributions (Today's $)", format: 'currency', value: row => row.realContributions },
+  { header: "One-off Deposits (Today's $)", format: 'currency', value: row => row.realEventDeposits },
+  { header: "One-off Withdrawals (Today's $)", format: 'currency', value: row => row.realEventWithdrawals },
+  { header: "Withdrawals (Today's $)", format: 'currency', value: row => row.realWithdrawals },
+  { header: "Ending Balance (Today's $)", format: 'currency', value: row => row.realEndingBalance },
+];
+
+const periodColumns = (periodLabel: string): Column<PeriodData>[] => [
+  { header: 'Year', format: 'number', value: row => row.year },
+  { header: periodLabel, format: 'number', value: row => row.period },
+  { header: 'Start Date', format: 'date', value: row => row.periodStartDate },
+  { header: 'End Date', format: 'date', value: row => lastDayOf(row.periodEndDate) },
+  { header: 'Starting Balance', format: 'currency', value: row => row.startingBalance },
+  { header: 'Contributions', format: 'currency', value: row => row.contributions },
+  { header: 'One-off Deposits', format: 'currency', value: row => row.eventDeposits },
+  { header: 'One-off Withdrawals', format: 'currency', value: row => row.eventWithdrawals },
+  { header: 'Interest Earned', format: 'currency', value: row => row.interestEarned },
+  { header: 'Fees Paid', format: 'currency', value: row => row.feesPaid },
+  { header: 'Taxes Paid', format: 'currency', value: row => row.taxesPaid },
+  { header: 'Ending Balance', format: 'currency', value: row => row.endingBalance },
+];
+
+// Optional columns only appear when some row has a value, mirroring the on-screen table.
+const tableRows = <Row>(columns: Column<Row>[], rows: Row[]): ExportCell[][] => {
+  const used = columns.filter(column => rows.some(row => column.value(row) !== undefined));
+  return [
+    used.map(column => ({ value: column.header, bold: true })),
+    ...rows.map(row => used.map(column => ({ value: column.value(row) ?? null, format: column.format }))),
+  ];
+};
+
+const summaryRows = (heading: string, rows: ExportSummaryRow[]): ExportCell[][] => [
+  [{ value: heading, bold: true }],
+  ...rows.map(row => [{ value: row.label }, { value: row.value, format: row.format }]),
+  [],
+];
+
+/**
+ * The projection as a workbook: a "Projection" sheet with the inputs and results above the year-by-year table, and a
+ * "Schedule" sheet with the per-period breakdown when there is one.
+ */
+export const buildProjectionWorkbook = (projection: ProjectionExport): ExportSheet[] => {
+  const sheets: ExportSheet[] = [
+    {
+      name: 'Projection',
+      rows: [
+        [{ value: projection.title, bold: true }],
+        [{ value: 'Exported' }, { value: format(projection.exportedAt, 'yyyy-MM-dd'), format: 'date' }],
+        [],
+        ...summaryRows('Inputs', projection.inputs),
+        ...summaryRows('Results', projection.summary),
+        ...tableRows(yearlyColumns, projection.yearlyData),
+      ],
+    },
+  ];
+  if (projection.periodData && projection.periodData.length > 0) {
+    sheets.push({ name: 'Schedule', rows: tableRows(periodColumns(projection.periodLabel ?? 'Period'), projection.periodData) });
+  }
+  return sheets;
+};
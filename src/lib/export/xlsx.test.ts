@@ -0,0 +1,57 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { calculateFullProjection } from '@/lib/engine';
+import { baseParams } from '@/lib/engine/test-fixtures';
+import { buildProjectionWorkbook } from './workbook';
+import { toXlsx } from './xlsx';
+
+const readBack = async (bytes: Uint8Array) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  return workbook;
+};
+
+describe('toXlsx', () => {
+  it('writes a projection that reads back with its values and formats', async () => {
+    const { yearlyData } = calculateFullProjection(baseParams({ startDate: '2025-01-15' }));
+    const sheets = buildProjectionWorkbook({
+      title: 'Investment Projection',
+      exportedAt: new Date(2025, 0, 15),
+      inputs: [{ label: 'Interest Rate', value: 5, format: 'percentage' }],
+      summary: [{ label: 'Future Value', value: yearlyData[9].endingBalance, format: 'currency' }],
+      yearlyData,
+    });
+    const workbook = await readBack(await toXlsx(sheets));
+    const sheet = workbook.getWorksheet('Projection')!;
+
+    expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Projection']);
+    expect(sheet.getCell('A1').value).toBe('Investment Projection');
+    expect(sheet.getCell('A1').font?.bold).toBe(true);
+    expect(sheet.getCell('B2').value).toEqual(new Date(Date.UTC(2025, 0, 15)));
+    expect(sheet.getCell('B2').numFmt).toBe('mm-dd-yy');
+    expect(sheet.getCell('B5').value).toBe(0.05);
+    expect(sheet.getCell('B5').numFmt).toBe('0.00%');
+    expect(sheet.getCell('B8').value).toBe(yearlyData[9].endingBalance);
+    expect(sheet.getCell('B8').numFmt).toBe('[$$-409]#,##0.00');
+
+    // The yearly table follows the summary blocks: a bold header row, then one row per year.
+    const headerRow = sheet.getRow(10);
+    expect(headerRow.getCell(1).value).toBe('Year');
+    expect(headerRow.getCell(1).font?.bold).toBe(true);
+    expect(sheet.rowCount).toBe(10 + yearlyData.length);
+    const endingBalanceColumn = (headerRow.values as unknown[]).indexOf('Ending Balance');
+    expect(sheet.getRow(11).getCell(endingBalanceColumn).value).toBe(yearlyData[0].endingBalance);
+  });
+
+  it('keeps text as written, leaves out empty and non-finite cells and shortens long sheet names', async () => {
+    const workbook = await readBack(await toXlsx([
+      { name: 'A sheet name well over the thirty-one character limit', rows: [[{ value: 'Tom & Jerry <"quoted">' }, { value: null }, { value: Infinity, format: 'number' }]] },
+    ]));
+    const [sheet] = workbook.worksheets;
+
+    expect(sheet.name).toBe('A sheet name well over the thir');
+    expect(sheet.getCell('A1').value).toBe('Tom & Jerry <"quoted">');
+    expect(sheet.getCell('B1').value).toBeNull();
+    expect(sheet.getCell('C1').value).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import type { Workbook } from 'exceljs';
+import type { CellFormat, ExportCell, ExportSheet } from './workbook';
+
+// Excel workbooks are written with ExcelJS, loaded only when a workbook is exported. Numbers are stored as numbers with
+// number formats that Excel, Numbers and LibreOffice render in the reader's locale.
+
+const numberFormats: Record<CellFormat, string | undefined> = {
+  text: undefined,
+  number: undefined,
+  currency: '[$$-409]#,##0.00',
+  percentage: '0.00%',
+  year: '0',
+  date: 'mm-dd-yy', // Excel's built-in short date, shown in the reader's date format
+};
+
+const toCellValue = ({ value, format }: ExportCell): string | number | Date | null => {
+  if (value === null) return null;
+  if (format === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return null;
+    return format === 'percentage' ? value / 100 : value;
+  }
+  return value;
+};
+
+const addSheet = (workbook: Workbook, sheet: ExportSheet) => {
+  const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+  // Wide enough for the longest entry in each column, within reason.
+  const widths: number[] = [];
+  sheet.rows.forEach((row, rowIndex) => row.forEach((cell, columnIndex) => {
+    const length = cell.value === null ? 0 : typeof cell.value === 'number' ? 14 : cell.value.length;
+    widths[columnIndex] = Math.min(Math.max(widths[columnIndex] ?? 10, length + 2), 40);
+
+    const value = toCellValue(cell);
+    if (value === null) return;
+    const target = worksheet.getCell(rowIndex + 1, columnIndex + 1);
+    target.value = value;
+    const numberFormat = numberFormats[cell.format ?? 'text'];
+    if (numberFormat && !cell.bold) target.numFmt = numberFormat;
+    if (cell.bold) target.font = { bold: true };
+  }));
+  widths.forEach((width, index) => {
+    worksheet.getColumn(index + 1).width = width;
+  });
+};
+
+/** The sheets as the bytes of an .xlsx file. */
+export const toXlsx = async (sheets: ExportSheet[]): Promise<Uint8Array> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach(sheet => addSheet(workbook, sheet));
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+};
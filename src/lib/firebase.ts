@@ -0,0 +1,56 @@
+import { getApp, getApps, initializeApp, type FirebaseApp } from 'firebase/app';
+import { connectAuthEmulator, getAuth, type Auth } from 'firebase/auth';
+import {
+  connectFirestoreEmulator,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from 'firebase/firestore';
+
+// Accounts and cloud-synced scenarios are optional: they are only offered when a Firebase project is configured, or
+// when NEXT_PUBLIC_FIREBASE_EMULATORS is "true" and the app talks to the Local Emulator Suite (`npm run emulators`).
+const useEmulators = process.env.NEXT_PUBLIC_FIREBASE_EMULATORS === 'true';
+
+// The emulators accept any API key; a `demo-` project id keeps them from ever reaching live services.
+const EMULATOR_PROJECT_ID = 'demo-app';
+
+const firebaseConfig = {
+  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY || (useEmulators ? 'demo-api-key' : undefined),
+  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || (useEmulators ? EMULATOR_PROJECT_ID : undefined),
+  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+};
+
+export const isFirebaseConfigured = Boolean(firebaseConfig.apiKey && firebaseConfig.projectId);
+
+export interface FirebaseServices {
+  app: FirebaseApp;
+  auth: Auth;
+  firestore: Firestore;
+}
+
+let services: FirebaseServices | null = null;
+
+/**
+ * The Firebase app, auth and Firestore, set up on first use in the browser. Firestore keeps a persistent cache shared
+ * by all tabs, so saved scenarios can be read and changed offline and are synced once the connection is back.
+ * Null when Firebase is not configured.
+ */
+export const getFirebaseServices = (): FirebaseServices | null => {
+  if (!isFirebaseConfigured) return null;
+  if (services) return services;
+
+  const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
+  const auth = getAuth(app);
+  const firestore = initializeFirestore(app, {
+    localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    ignoreUndefinedProperties: true,
+  });
+  if (useEmulators) {
+    connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+    connectFirestoreEmulator(firestore, '127.0.0.1', 8080);
+  }
+  services = { app, auth, firestore };
+  return services;
+};
@@ -0,0 +1,151 @@
+import { format, parseISO, subDays } from 'date-fns';
+import type { AccountType, CalculationMode, CashFlowEvent, CashFlowEventType, DayCountConvention, InvestmentFormData, PeriodData, ReturnDistribution, WithdrawalStrategy, YearlyData } from '@/types';
+import type { ComparableResultField, PeriodGranularity } from '@/lib/engine';
+
+// How figures and options are shown across the calculator, its tables, its exports and its report.
+
+export const formatCurrency = (value: number | undefined | null) => {
+  if (value === undefined || value === null || isNaN(value)) return "N/A";
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+};
+
+export const formatPercentage = (value: number | undefined | null) => {
+  if (value === undefined || value === null || isNaN(value)) return "N/A";
+  return `${value.toFixed(2)}%`;
+};
+
+export const formatYears = (value: number | undefined | null) => {
+  if (value === undefined || value === null || isNaN(value)) return "N/A";
+  return Number.isInteger(value) ? `${value} years` : `${Number(value).toFixed(2)} years`;
+};
+
+export const formatCompactCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+// Enum values such as "monthly" or "annually" as option labels.
+export const formatOptionLabel = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// The month a projection year ends in when the projection has a start date (period end dates are exclusive).
+export const formatYearLabel = (data: Pick<YearlyData, 'year' | 'periodEndDate'>) =>
+  data.periodEndDate ? format(subDays(parseISO(data.periodEndDate), 1), 'MMM yyyy') : `Year ${data.year}`;
+
+export const formatPeriodDates = (data: Pick<YearlyData, 'periodStartDate' | 'periodEndDate'>) => {
+  if (!data.periodStartDate || !data.periodEndDate) return null;
+  const firstDay = format(parseISO(data.periodStartDate), 'MMM d, yyyy');
+  const lastDay = format(subDays(parseISO(data.periodEndDate), 1), 'MMM d, yyyy');
+  return firstDay === lastDay ? firstDay : `${firstDay} – ${lastDay}`;
+};
+
+// Dated periods are labelled by their dates, others by their number within the year.
+export const formatPeriodLabel = (data: PeriodData, granularity: PeriodGranularity) =>
+  formatPeriodDates(data) ?? `${granularity === 'monthly' ? 'Month' : 'Period'} ${data.period}`;
+
+export const formatCashFlows = (data: Pick<YearlyData, 'eventDeposits' | 'eventWithdrawals'>) =>
+  data.eventDeposits || data.eventWithdrawals
+    ? [
+        data.eventDeposits ? `+${formatCurrency(data.eventDeposits)}` : null,
+        data.eventWithdrawals ? `−${formatCurrency(data.eventWithdrawals)}` : null,
+      ].filter(Boolean).join(' / ')
+    : '—';
+
+export const describeCashFlowEvent = (event: CashFlowEvent) => event.type === 'pauseContributions'
+  ? `Pause ${event.durationMonths ?? 0} mo.`
+  : `${event.type === 'deposit' ? '+' : '−'}${formatCurrency(event.amount)}`;
+
+export const describeScenarioInputs = (inputs: InvestmentFormData) => [
+  formatPercentage(inputs.interestRate),
+  `${formatCurrency(inputs.contributionAmount)} ${inputs.contributionFrequency}`,
+  formatYears(inputs.investmentDuration),
+].join(' · ');
+
+export type ResultValueKind = 'currency' | 'percentage' | 'years' | 'year';
+
+export const comparableResultDisplay: Record<ComparableResultField, { label: string; kind: ResultValueKind }> = {
+  futureValue: { label: 'Projected Future Value', kind: 'currency' },
+  totalInterest: { label: 'Total Interest Earned', kind: 'currency' },
+  totalContributions: { label: 'Total Contributions', kind: 'currency' },
+  calculatedInitialInvestment: { label: 'Calculated Initial Investment', kind: 'currency' },
+  calculatedContributionAmount: { label: 'Calculated Contribution Amount', kind: 'currency' },
+  calculatedInterestRate: { label: 'Calculated Interest Rate', kind: 'percentage' },
+  calculatedInvestmentDuration: { label: 'Calculated Duration', kind: 'years' },
+  originalTargetFutureValue: { label: 'Target Future Value', kind: 'currency' },
+  realFutureValue: { label: "Future Value (Today's $)", kind: 'currency' },
+  realTotalInterest: { label: "Interest Earned (Today's $)", kind: 'currency' },
+  realTotalContributions: { label: "Contributions (Today's $)", kind: 'currency' },
+  totalTaxesPaid: { label: 'Taxes Paid Along the Way', kind: 'currency' },
+  withdrawalTax: { label: 'Tax Due on Withdrawal', kind: 'currency' },
+  afterTaxFutureValue: { label: 'After-Tax Future Value', kind: 'currency' },
+  totalFeesPaid: { label: 'Total Fees Paid', kind: 'currency' },
+  costOfFees: { label: 'Cost of Fees', kind: 'currency' },
+  totalEventWithdrawals: { label: 'One-off Withdrawals', kind: 'currency' },
+  totalWithdrawals: { label: 'Total Withdrawn', kind: 'currency' },
+  balanceAfterWithdrawals: { label: 'Balance After Withdrawals', kind: 'currency' },
+  moneyLastsUntilYear: { label: 'Money Lasts Until', kind: 'year' },
+};
+
+export const formatResultValue = (kind: ResultValueKind, value: number | null) => {
+  if (value === null) return '—';
+  switch (kind) {
+    case 'percentage': return formatPercentage(value);
+    case 'years': return formatYears(value);
+    case 'year': return `Year ${value}`;
+    case 'currency':
+    default: return formatCurrency(value);
+  }
+};
+
+// Rates differ in percentage points and "money lasts until" years in years.
+export const formatResultDelta = (kind: ResultValueKind, delta: number | null) => {
+  if (delta === null || Math.abs(delta) < 0.005) return null;
+  const sign = delta > 0 ? '+' : '−';
+  switch (kind) {
+    case 'percentage': return `${sign}${Math.abs(delta).toFixed(2)} pp`;
+    case 'years':
+    case 'year': return `${sign}${formatYears(Math.abs(delta))}`;
+    case 'currency':
+    default: return `${sign}${formatCurrency(Math.abs(delta))}`;
+  }
+};
+
+export const calculationModeLabels: Record<CalculationMode, string> = {
+  futureValue: 'Future Value',
+  calculateInitialInvestment: 'Initial Investment',
+  calculateMonthlyContribution: 'Contribution Amount',
+  calculateInterestRate: 'Interest Rate',
+  calculateInvestmentDuration: 'Duration',
+};
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  taxable: 'Taxable (Brokerage)',
+  taxDeferred: 'Tax-Deferred (Traditional IRA/401k)',
+  taxFree: 'Tax-Free (Roth)',
+};
+
+export const withdrawalStrategyLabels: Record<WithdrawalStrategy, string> = {
+  none: 'No Withdrawals',
+  fixedAmount: 'Fixed Amount per Year',
+  fixedPercentage: 'Fixed Percentage of Balance',
+  inflationAdjusted: 'Inflation-Adjusted Amount',
+};
+
+export const returnDistributionLabels: Record<ReturnDistribution, string> = {
+  normal: 'Normal',
+  fatTailed: 'Fat-Tailed (Student-t)',
+};
+
+export const cashFlowEventTypeLabels: Record<CashFlowEventType, string> = {
+  deposit: 'Lump-Sum Deposit',
+  withdrawal: 'Lump-Sum Withdrawal',
+  pauseContributions: 'Pause Contributions',
+};
+
+export const dayCountConventionLabels: Record<DayCountConvention, string> = {
+  actual365: 'Actual/365',
+  actual360: 'Actual/360',
+  thirty360: '30/360',
+};
+
+export const periodGranularityLabels: Record<PeriodGranularity, string> = {
+  monthly: 'Monthly',
+  compoundingPeriod: 'Per Compounding Period',
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { runCalculation } from '@/lib/engine';
+import { baseScenario } from '@/lib/engine/test-fixtures';
+import { createSavedScenario, readScenarioLibrary, SCENARIO_LIBRARY_STORAGE_KEY, writeScenarioLibrary } from './scenario-library';
+
+const memoryStorage = (stored: string | null = null): Storage => {
+  const items = new Map<string, string>(stored === null ? [] : [[SCENARIO_LIBRARY_STORAGE_KEY, stored]]);
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+};
+
+describe('readScenarioLibrary', () => {
+  it('reads back what was written', () => {
+    const storage = memoryStorage();
+    const scenario = createSavedScenario('Retirement', baseScenario(), runCalculation(baseScenario()).results!);
+
+    expect(writeScenarioLibrary([scenario], storage)).toBe(true);
+    expect(readScenarioLibrary(storage)).toEqual({ scenarios: [scenario], error: null });
+  });
+
+  it('leaves out scenarios whose results are not a calculation, keeping the rest', () => {
+    const scenario = createSavedScenario('Retirement', baseScenario(), runCalculation(baseScenario()).results!);
+    const stored = [
+      scenario,
+      { ...scenario, id: 'no-figures', results: {} },
+      { ...scenario, id: 'text-figure', results: { ...scenario.results, futureValue: '12000' } },
+      { ...scenario, id: 'overflowed', results: { ...scenario.results, totalInterest: null } },
+    ];
+
+    const library = readScenarioLibrary(memoryStorage(JSON.stringify({ version: 1, scenarios: stored })));
+
+    expect(library.scenarios).toEqual([scenario]);
+  });
+
+  it('keeps the headline figures but not the simulation and backtest details', () => {
+    const results = runCalculation(baseScenario({ monteCarloEnabled: true, returnVolatility: 15, simulationCount: 100, simulationSeed: 1 })).results!;
+    expect(results.monteCarlo).toBeDefined();
+
+    const scenario = createSavedScenario('Retirement', baseScenario(), results);
+
+    expect(scenario.results.futureValue).toBe(results.futureValue);
+    expect(scenario.results).not.toHaveProperty('monteCarlo');
+  });
+
+  it('is empty without an error when nothing is stored', () => {
+    expect(readScenarioLibrary(memoryStorage())).toEqual({ scenarios: [], error: null });
+  });
+
+  it.each([0, -1, 0.5, '1', null])('falls back to an empty library for version %j', version => {
+    const library = readScenarioLibrary(memoryStorage(JSON.stringify({ version, scenarios: [] })));
+
+    expect(library.scenarios).toEqual([]);
+    expect(library.error).toBe("The saved scenarios could not be read.");
+  });
+
+  it('does not read a library from a newer version', () => {
+    const library = readScenarioLibrary(memoryStorage(JSON.stringify({ version: 99, scenarios: [] })));
+
+    expect(library.scenarios).toEqual([]);
+    expect(library.error).toMatch(/newer version/);
+  });
+});
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type { CalculationResults, InvestmentFormData } from '@/types';
+import { InvestmentFormSchema } from '@/types';
+
+// Saved scenarios are kept in localStorage as `{ version, scenarios }`. Bump the version whenever the stored shape of a
+// scenario changes and add a migration from the previous one.
+export const SCENARIO_LIBRARY_STORAGE_KEY = 'compounding.scenarioLibrary';
+export const SCENARIO_LIBRARY_VERSION = 1;
+
+const savedFigure = z.number().finite();
+
+// The headline figures of a calculation. The simulation and backtest summaries are not kept: loading a scenario
+// calculates it again from its inputs.
+export const SavedResultsSchema = z.object({
+  futureValue: savedFigure,
+  totalInterest: savedFigure,
+  totalContributions: savedFigure,
+  calculatedInitialInvestment: savedFigure.optional(),
+  calculatedContributionAmount: savedFigure.optional(),
+  calculatedInterestRate: savedFigure.optional(),
+  interestRateSolverConvergence: z.object({ converged: z.boolean(), iterations: z.number().int().nonnegative() }).optional(),
+  calculatedInvestmentDuration: savedFigure.optional(),
+  originalTargetFutureValue: savedFigure.optional(),
+  realFutureValue: savedFigure.optional(),
+  realTotalInterest: savedFigure.optional(),
+  realTotalContributions: savedFigure.optional(),
+  totalTaxesPaid: savedFigure.optional(),
+  withdrawalTax: savedFigure.optional(),
+  afterTaxFutureValue: savedFigure.optional(),
+  totalFeesPaid: savedFigure.optional(),
+  costOfFees: savedFigure.optional(),
+  totalEventWithdrawals: savedFigure.optional(),
+  totalWithdrawals: savedFigure.optional(),
+  balanceAfterWithdrawals: savedFigure.optional(),
+  moneyLastsUntilYear: savedFigure.nullable().optional(),
+}) satisfies z.ZodType<CalculationResults>;
+
+export type SavedResults = z.infer<typeof SavedResultsSchema>;
+
+export const SavedScenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  inputs: InvestmentFormSchema,
+  // The results as they were when saved, listed in the library next to the scenario.
+  results: SavedResultsSchema,
+  savedAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type SavedScenario = z.infer<typeof SavedScenarioSchema>;
+
+export interface ScenarioLibraryReadResult {
+  scenarios: SavedScenario[];
+  error: string | null;
+}
+
+// Older library versions are upgraded one step at a time to the current one; there are none yet.
+const migrations: Record<number, (library: { version: number; scenarios: unknown[] }) => { version: number; scenarios: unknown[] }> = {};
+
+const UNREADABLE_LIBRARY_ERROR = "The saved scenarios could not be read.";
+
+const createScenarioId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * The saved scenarios, oldest first. Scenarios that no longer pass validation are left out rather than failing the
+ * whole library; a library written by a newer version of the calculator is not read at all.
+ */
+export const readScenarioLibrary = (storage: Storage = window.localStorage): ScenarioLibraryReadResult => {
+  let library: { version: number; scenarios: unknown[] };
+  try {
+    const stored = storage.getItem(SCENARIO_LIBRARY_STORAGE_KEY);
+    if (!stored) return { scenarios: [], error: null };
+    const parsed = JSON.parse(stored);
+    if (!Number.isInteger(parsed?.version) || parsed.version < 1 || !Array.isArray(parsed.scenarios)) {
+      return { scenarios: [], error: UNREADABLE_LIBRARY_ERROR };
+    }
+    library = parsed;
+  } catch {
+    return { scenarios: [], error: UNREADABLE_LIBRARY_ERROR };
+  }
+  if (library.version > SCENARIO_LIBRARY_VERSION) {
+    return { scenarios: [], error: "The saved scenarios were saved by a newer version of the calculator. Reload the page to see them." };
+  }
+  while (library.version < SCENARIO_LIBRARY_VERSION) {
+    const migrate = migrations[library.version];
+    if (!migrate) return { scenarios: [], error: UNREADABLE_LIBRARY_ERROR };
+    library = migrate(library);
+  }
+
+  const scenarios = library.scenarios.flatMap(scenario => {
+    const result = SavedScenarioSchema.safeParse(scenario);
+    if (!result.success) console.warn("Skipping an invalid saved scenario:", result.error.issues);
+    return result.success ? [result.data] : [];
+  });
+  return { scenarios, error: null };
+};
+
+/** Replaces the stored library; false when the browser refuses the write (storage full or disabled). */
+export const writeScenarioLibrary = (scenarios: SavedScenario[], storage: Storage = window.localStorage): boolean => {
+  try {
+    storage.setItem(SCENARIO_LIBRARY_STORAGE_KEY, JSON.stringify({ version: SCENARIO_LIBRARY_VERSION, scenarios }));
+    return true;
+  } catch (error) {
+    console.warn("Could not save the scenario library:", error);
+    return false;
+  }
+};
+
+export const createSavedScenario = (name: string, inputs: InvestmentFormData, results: SavedResults): SavedScenario => {
+  const now = new Date().toISOString();
+  return { id: createScenarioId(), name, inputs, results: SavedResultsSchema.parse(results), savedAt: now, updatedAt: now };
+};
+
+export const renameSavedScenario = <T extends SavedScenario>(scenario: T, name: string): T => ({
+  ...scenario,
+  name,
+  updatedAt: new Date().toISOString(),
+});
+
+export const duplicateSavedScenario = (scenario: SavedScenario, name: string): SavedScenario =>
+  createSavedScenario(name, scenario.inputs, scenario.results);
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { InvestmentFormData } from '@/types';
+import { baseScenario } from '@/lib/engine/test-fixtures';
+import { buildScenarioUrl, decodeScenarioParam, encodeScenarioParam, readScenarioParam } from './scenario-url';
+
+const scenario = (overrides: Partial<InvestmentFormData> = {}): InvestmentFormData => ({ ...baseScenario(), ...overrides });
+
+const encodedPayload = (text: string) => `1.${Buffer.from(text).toString('base64url')}`;
+
+describe('encodeScenarioParam / decodeScenarioParam', () => {
+  it('round-trips every input', () => {
+    const data = scenario({
+      calculationMode: 'calculateInterestRate',
+      targetFutureValue: 250000,
+      contributionTiming: 'beginning',
+      compoundingFrequency: 'daily',
+      contributionFrequency: 'weekly',
+      startDate: '2025-01-31',
+      dayCountConvention: 'thirty360',
+      rateSchedule: [{ startYear: 5, rate: 4.5 }],
+      cashFlowEvents: [{ type: 'withdrawal', year: 3, month: 7, amount: 2500 }, { type: 'pauseContributions', year: 4, month: 1, durationMonths: 6 }],
+      accountType: 'taxable',
+      dividendYield: 1.8,
+      withdrawalStrategy: 'fixedPercentage',
+      withdrawalRate: 4,
+      monteCarloEnabled: true,
+      simulationSeed: 42,
+    });
+
+    expect(decodeScenarioParam(encodeScenarioParam(data))).toEqual({ success: true, data });
+  });
+
+  it('brings back empty inputs as null', () => {
+    const data = scenario({ initialInvestment: NaN, interestRate: null });
+
+    expect(decodeScenarioParam(encodeScenarioParam(data))).toEqual({ success: true, data: { ...data, initialInvestment: null } });
+  });
+
+  it('leaves inputs at their defaults out of the link', () => {
+    const param = encodeScenarioParam(scenario());
+    const payload = JSON.parse(Buffer.from(param.slice(2), 'base64url').toString());
+
+    expect(param.startsWith('1.')).toBe(true);
+    expect(payload).not.toHaveProperty('contributionTiming');
+    expect(payload).not.toHaveProperty('rateSchedule');
+    expect(payload).not.toHaveProperty('startDate');
+    expect(payload).toMatchObject({ initialInvestment: 10000, compoundingFrequency: 'monthly' });
+  });
+
+  it('opens a link made before later inputs existed with their defaults', () => {
+    const decoded = decodeScenarioParam(encodedPayload(JSON.stringify({ initialInvestment: 5000, interestRate: 6, investmentDuration: 20 })));
+
+    expect(decoded.success).toBe(true);
+    expect(decoded.success && decoded.data).toMatchObject({
+      initialInvestment: 5000,
+      interestRate: 6,
+      investmentDuration: 20,
+      calculationMode: 'futureValue',
+      contributionTiming: 'end',
+      dayCountConvention: 'actual365',
+      rateSchedule: [],
+      inflationRate: null,
+    });
+  });
+
+  it('refuses a link from a newer version', () => {
+    const decoded = decodeScenarioParam(`2.${encodeScenarioParam(scenario()).slice(2)}`);
+
+    expect(decoded).toEqual({ success: false, error: expect.stringMatching(/newer version/) });
+  });
+
+  it.each(['', 'abc', '0.e30', '-1.e30', 'x.e30'])('refuses %j as a version', param => {
+    expect(decodeScenarioParam(param)).toEqual({ success: false, error: "The link does not contain a valid scenario." });
+  });
+
+  it.each([encodedPayload('{"initialInvestment":'), '1.%%%'])('reports a damaged payload (%s)', param => {
+    expect(decodeScenarioParam(param)).toEqual({ success: false, error: "The link is incomplete or damaged." });
+  });
+
+  it('refuses a payload that is not an object', () => {
+    expect(decodeScenarioParam(encodedPayload('[1, 2]'))).toEqual({ success: false, error: "The link does not contain a valid scenario." });
+  });
+
+  it('names the input that fails validation', () => {
+    const decoded = decodeScenarioParam(encodedPayload(JSON.stringify({ interestRate: 20000 })));
+
+    expect(decoded).toEqual({ success: false, error: expect.stringContaining('interestRate') });
+  });
+});
+
+describe('buildScenarioUrl / readScenarioParam', () => {
+  it('puts the scenario in the hash, keeping the path and query and replacing an old hash', () => {
+    const url = new URL(buildScenarioUrl('https://example.com/calculator?lang=en#s=1.old', scenario()));
+
+    expect(url.pathname + url.search).toBe('/calculator?lang=en');
+    expect(readScenarioParam(url.hash)).toBe(encodeScenarioParam(scenario()));
+  });
+
+  it('finds no scenario in a hash without one', () => {
+    expect(readScenarioParam('')).toBeNull();
+    expect(readScenarioParam('#results')).toBeNull();
+  });
+});
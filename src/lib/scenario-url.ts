@@ -0,0 +1,93 @@
+import type { InvestmentFormData } from '@/types';
+import { InvestmentFormSchema } from '@/types';
+
+// Shared scenarios live in the URL hash (`#s=1.<payload>`), so they are never sent to the server. The payload is the
+// form data as JSON, base64url-encoded, prefixed with the format version.
+export const SCENARIO_URL_PARAM = 's';
+export const SCENARIO_URL_VERSION = 1;
+
+export type ScenarioUrlDecodeResult =
+  | { success: true; data: InvestmentFormData }
+  | { success: false; error: string };
+
+// Fields left at their schema default are dropped from the payload and restored by the schema when it is read back.
+// Changing a schema default therefore changes what older links mean: bump the version and migrate when that happens.
+const schemaDefaults: Partial<InvestmentFormData> = InvestmentFormSchema.parse({});
+
+const isOmitted = (key: keyof InvestmentFormData, value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'number' && isNaN(value)) ||
+  JSON.stringify(value) === JSON.stringify(schemaDefaults[key]);
+
+const toBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+// Older payload versions are upgraded one step at a time to the current one; there are none yet.
+const migrations: Record<number, (payload: Record<string, unknown>) => Record<string, unknown>> = {};
+
+/** The value of the `s` hash parameter for a scenario. */
+export const encodeScenarioParam = (data: InvestmentFormData): string => {
+  const compact = Object.fromEntries(
+    Object.entries(data).filter(([key, value]) => !isOmitted(key as keyof InvestmentFormData, value))
+  );
+  return `${SCENARIO_URL_VERSION}.${toBase64Url(JSON.stringify(compact))}`;
+};
+
+/**
+ * Reads a scenario back from an `s` hash parameter and validates it against the form schema. Inputs that were empty
+ * come back as null, the way the form holds them.
+ */
+export const decodeScenarioParam = (param: string): ScenarioUrlDecodeResult => {
+  const separator = param.indexOf('.');
+  const version = Number(param.slice(0, separator));
+  if (separator < 0 || !Number.isInteger(version) || version < 1) {
+    return { success: false, error: "The link does not contain a valid scenario." };
+  }
+  if (version > SCENARIO_URL_VERSION) {
+    return { success: false, error: "The link was made by a newer version of the calculator. Reload the page and try again." };
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(param.slice(separator + 1)));
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { success: false, error: "The link does not contain a valid scenario." };
+    }
+    payload = parsed as Record<string, unknown>;
+  } catch {
+    return { success: false, error: "The link is incomplete or damaged." };
+  }
+  for (let from = version; from < SCENARIO_URL_VERSION; from++) {
+    payload = migrations[from](payload);
+  }
+
+  const result = InvestmentFormSchema.safeParse(payload);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { success: false, error: `The scenario in the link is not valid: ${issue.path.join('.')} - ${issue.message}` };
+  }
+  const data = result.data as Record<string, unknown>;
+  return {
+    success: true,
+    data: Object.fromEntries(Object.keys(InvestmentFormSchema.shape).map(key => [key, data[key] ?? null])) as InvestmentFormData,
+  };
+};
+
+/** The scenario in a URL hash such as `#s=1.…`, or null when the hash does not carry one. */
+export const readScenarioParam = (hash: string): string | null =>
+  new URLSearchParams(hash.replace(/^#/, '')).get(SCENARIO_URL_PARAM);
+
+/** A link to `baseUrl` (without its hash) that opens the given scenario. */
+export const buildScenarioUrl = (baseUrl: string, data: InvestmentFormData): string => {
+  const url = new URL(baseUrl);
+  url.hash = new URLSearchParams({ [SCENARIO_URL_PARAM]: encodeScenarioParam(data) }).toString();
+  return url.toString();
+};
@@ -3,6 +3,7 @@ import { z } from 'zod';
 
 export const CalculationModeSchema = z.enum([
   'futureValue',
+  'calculateInitialInvestment',
   'calculateMonthlyContribution',
   'calculateInterestRate',
   'calculateInvestmentDuration',
@@ -22,15 +23,94 @@ export const CompoundingFrequencySchema = z.enum([
 ]);
 export type CompoundingFrequency = z.infer<typeof CompoundingFrequencySchema>;
 
-export const ContributionFrequencySchema = z.enum(['monthly', 'yearly']);
+export const ContributionFrequencySchema = z.enum([
+  'weekly',
+  'biweekly',
+  'monthly',
+  'quarterly',
+  'yearly',
+  'continuously', // a steady stream; contributionAmount is then the total deposited per year
+]);
 export type ContributionFrequency = z.infer<typeof ContributionFrequencySchema>;
 
+// 'beginning' = deposit at the start of each period (annuity due), 'end' = after interest is applied (ordinary annuity).
+export const ContributionTimingSchema = z.enum(['beginning', 'end']);
+export type ContributionTiming = z.infer<typeof ContributionTimingSchema>;
+
+// How interest accrues between two dates: actual days over 365 or 360, or 30-day months over a 360-day year.
+export const DayCountConventionSchema = z.enum(['actual365', 'actual360', 'thirty360']);
+export type DayCountConvention = z.infer<typeof DayCountConventionSchema>;
+
+// taxable = brokerage account, taxDeferred = traditional IRA/401(k), taxFree = Roth.
+export const AccountTypeSchema = z.enum(['taxable', 'taxDeferred', 'taxFree']);
+export type AccountType = z.infer<typeof AccountTypeSchema>;
+
+// What happens after the accumulation period: nothing, or yearly withdrawals of a fixed amount, a fixed percentage of
+// the balance, or an amount that rises with inflation.
+export const WithdrawalStrategySchema = z.enum(['none', 'fixedAmount', 'fixedPercentage', 'inflationAdjusted']);
+export type WithdrawalStrategy = z.infer<typeof WithdrawalStrategySchema>;
+
+// Distribution of yearly returns in Monte Carlo simulations: normal, or Student-t for fatter tails (more extreme years).
+export const ReturnDistributionSchema = z.enum(['normal', 'fatTailed']);
+export type ReturnDistribution = z.infer<typeof ReturnDistributionSchema>;
+
+// A change of the annual interest rate from the start of `startYear` (1-based) onwards, e.g. a glide path.
+export const RateScheduleEntrySchema = z.object({
+  startYear: z.number({ invalid_type_error: "Start year is required" }).int("Start year must be a whole year").min(2, "Rate changes start from year 2").max(100, "Start year cannot exceed 100"),
+  rate: z.number({ invalid_type_error: "Rate is required" }).min(-99, "Interest rate cannot be below -99%").max(10000, "Interest rate cannot exceed 10,000%"),
+});
+export type RateScheduleEntry = z.infer<typeof RateScheduleEntrySchema>;
+
+// One-off cash flows during the accumulation period: a lump-sum deposit, a lump-sum withdrawal, or a pause of the
+// regular contributions for `durationMonths`.
+export const CashFlowEventTypeSchema = z.enum(['deposit', 'withdrawal', 'pauseContributions']);
+export type CashFlowEventType = z.infer<typeof CashFlowEventTypeSchema>;
+
+// Dated by 1-based year and month of the projection: year 1, month 1 is the start.
+export const CashFlowEventSchema = z.object({
+  type: CashFlowEventTypeSchema,
+  year: z.number({ invalid_type_error: "Year is required" }).int("Year must be a whole year").min(1, "Year must be at least 1").max(100, "Year cannot exceed 100"),
+  month: z.number({ invalid_type_error: "Month is required" }).int("Month must be a whole month").min(1, "Month must be 1-12").max(12, "Month must be 1-12"),
+  amount: z.number().min(0, "Amount must be zero or positive").nullable().optional(), // deposits and withdrawals
+  durationMonths: z.number().int("Duration must be whole months").min(1, "Pause must last at least 1 month").max(1200, "Pause cannot exceed 1,200 months").nullable().optional(), // pauses
+});
+export type CashFlowEvent = z.infer<typeof CashFlowEventSchema>;
+
 export const InvestmentFormSchema = z.object({
   initialInvestment: z.number().min(0, "Initial investment must be zero or positive").max(1000000000, "Initial investment is too large (max 1B)").nullable().optional(),
   contributionAmount: z.number().min(0, "Contribution amount must be zero or positive").max(1000000, "Contribution amount is too large (max 1M)").nullable().optional(),
   contributionFrequency: ContributionFrequencySchema.default('monthly'),
-  interestRate: z.number().min(0, "Interest rate must be zero or positive").max(100, "Interest rate cannot exceed 100%").nullable().optional(),
+  contributionTiming: ContributionTimingSchema.default('end'),
+  contributionIncreaseRate: z.number().min(0, "Contribution increase must be zero or positive").max(100, "Contribution increase cannot exceed 100% per year").nullable().optional(),
+  contributionIncreaseAmount: z.number().min(0, "Contribution increase must be zero or positive").max(1000000, "Contribution increase is too large (max 1M)").nullable().optional(),
+  interestRate: z.number().min(-99, "Interest rate cannot be below -99%").max(10000, "Interest rate cannot exceed 10,000%").nullable().optional(),
+  rateSchedule: z.array(RateScheduleEntrySchema).default([]),
+  cashFlowEvents: z.array(CashFlowEventSchema).default([]),
   investmentDuration: z.number().min(0, "Duration must be zero or positive").max(100, "Duration cannot exceed 100 years").nullable().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be a date").nullable().optional(), // ISO date; without one, years are numbered only
+  dayCountConvention: DayCountConventionSchema.default('actual365'),
+  inflationRate: z.number().min(0, "Inflation rate must be zero or positive").max(100, "Inflation rate cannot exceed 100%").nullable().optional(),
+  accountType: AccountTypeSchema.default('taxFree'),
+  marginalIncomeTaxRate: z.number().min(0, "Tax rate must be zero or positive").max(100, "Tax rate cannot exceed 100%").nullable().optional(),
+  capitalGainsTaxRate: z.number().min(0, "Tax rate must be zero or positive").max(100, "Tax rate cannot exceed 100%").nullable().optional(),
+  dividendTaxRate: z.number().min(0, "Tax rate must be zero or positive").max(100, "Tax rate cannot exceed 100%").nullable().optional(),
+  dividendYield: z.number().min(0, "Dividend yield must be zero or positive").max(100, "Dividend yield cannot exceed 100%").nullable().optional(),
+  expenseRatio: z.number().min(0, "Expense ratio must be zero or positive").max(100, "Expense ratio cannot exceed 100%").nullable().optional(),
+  advisoryFeeRate: z.number().min(0, "Advisory fee must be zero or positive").max(100, "Advisory fee cannot exceed 100%").nullable().optional(),
+  flatAnnualFee: z.number().min(0, "Annual fee must be zero or positive").max(1000000, "Annual fee is too large (max 1M)").nullable().optional(),
+  perPeriodCentRounding: z.boolean().default(false),
+  withdrawalStrategy: WithdrawalStrategySchema.default('none'),
+  withdrawalAmount: z.number().min(0, "Withdrawal amount must be zero or positive").max(1000000000, "Withdrawal amount is too large (max 1B)").nullable().optional(),
+  withdrawalRate: z.number().min(0, "Withdrawal rate must be zero or positive").max(100, "Withdrawal rate cannot exceed 100%").nullable().optional(),
+  withdrawalDuration: z.number().int("Withdrawal duration must be whole years").min(1, "Withdrawal duration must be at least 1 year").max(100, "Withdrawal duration cannot exceed 100 years").nullable().optional(),
+  monteCarloEnabled: z.boolean().default(false),
+  returnVolatility: z.number().min(0, "Volatility must be zero or positive").max(100, "Volatility cannot exceed 100%").nullable().optional(),
+  returnDistribution: ReturnDistributionSchema.default('normal'),
+  simulationCount: z.number().int("Number of simulations must be a whole number").min(100, "Run at least 100 simulations").max(10000, "Too many simulations (max 10,000)").nullable().optional(),
+  simulationSeed: z.number().int("Seed must be a whole number").min(0, "Seed must be zero or positive").max(4294967295, "Seed is too large").nullable().optional(),
+  backtestEnabled: z.boolean().default(false),
+  stockAllocation: z.number().min(0, "Allocation must be zero or positive").max(100, "Allocation cannot exceed 100%").nullable().optional(),
+  bondAllocation: z.number().min(0, "Allocation must be zero or positive").max(100, "Allocation cannot exceed 100%").nullable().optional(),
   targetFutureValue: z.number().min(0, "Target future value must be positive").max(100000000000, "Target future value is too large (max 100B)").nullable().optional(),
   calculationMode: CalculationModeSchema.default('futureValue'),
   compoundingFrequency: CompoundingFrequencySchema.default('annually'),
@@ -42,17 +122,95 @@ export interface CalculationResults {
   futureValue: number;
   totalInterest: number;
   totalContributions: number;
+  calculatedInitialInvestment?: number;
   calculatedContributionAmount?: number;
   calculatedInterestRate?: number;
+  interestRateSolverConvergence?: { converged: boolean; iterations: number };
   calculatedInvestmentDuration?: number;
   originalTargetFutureValue?: number;
-  actualContributionAmountPerCompoundingPeriod?: number; // Added for clarity
+  // Inflation-adjusted (today's dollars) counterparts of the nominal figures above.
+  realFutureValue?: number;
+  realTotalInterest?: number;
+  realTotalContributions?: number;
+  totalTaxesPaid?: number; // yearly tax drag on distributions (taxable accounts)
+  withdrawalTax?: number; // tax due if the whole balance is withdrawn at the end
+  afterTaxFutureValue?: number;
+  totalFeesPaid?: number;
+  costOfFees?: number; // future value lost to fees compared with the same scenario without fees
+  totalEventWithdrawals?: number; // one-off withdrawals during accumulation (one-off deposits are in totalContributions)
+  totalWithdrawals?: number;
+  balanceAfterWithdrawals?: number;
+  moneyLastsUntilYear?: number | null; // year the balance runs out; null if it lasts through the withdrawal phase
+  monteCarlo?: MonteCarloSummary;
+  backtest?: BacktestSummary;
+}
+
+// Percentiles of simulated balances; 10th/50th/90th.
+export interface PercentileValues {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface BacktestOutcome {
+  startYear: number;
+  futureValue: number;
+}
+
+export interface BacktestSummary {
+  firstStartYear: number;
+  lastStartYear: number;
+  allocation: { stocks: number; bonds: number; cash: number }; // % of the portfolio
+  // One row per historical start year: `year` is the calendar start year, the other fields total the whole run.
+  outcomesByStartYear: YearlyData[];
+  best: BacktestOutcome;
+  worst: BacktestOutcome;
+  median: BacktestOutcome;
+  worstPath: YearlyData[]; // year-by-year projection for the worst start year
+}
+
+export interface MonteCarloSummary {
+  simulationCount: number;
+  seed: number;
+  futureValuePercentiles: PercentileValues;
+  probabilityOfReachingTarget: number | null; // 0-1; null without a target
+  yearlyPercentiles: (PercentileValues & { year: number })[]; // ending balance percentiles, aligned with YearlyData
 }
 
 export interface YearlyData {
   year: number;
+  periodStartDate?: string; // ISO date the year starts on; only with a start date
+  periodEndDate?: string; // ISO date of the next year's start (exclusive)
+  interestRate?: number; // annual rate applied this year
   startingBalance: number;
   interestEarned: number;
   contributions: number;
   endingBalance: number;
+  realContributions?: number; // contributions this year, deflated to today's dollars at the date each was made
+  realEndingBalance?: number; // endingBalance in today's dollars
+  taxesPaid?: number; // tax on this year's distributions, already deducted from endingBalance
+  feesPaid?: number; // fees charged this year, already deducted from endingBalance
+  elapsedYears?: number; // years from the start to the end of the row; only set on withdrawal-phase rows, where it trails `year` after a fractional accumulation period
+  withdrawals?: number; // only set on withdrawal-phase rows; taken at the start of the year
+  realWithdrawals?: number; // withdrawals in today's dollars
+  eventDeposits?: number; // one-off deposits this year; not included in contributions
+  eventWithdrawals?: number; // one-off withdrawals this year, already deducted from endingBalance
+  realEventDeposits?: number; // one-off amounts in today's dollars
+  realEventWithdrawals?: number;
+}
+
+// One row of the per-period schedule: a month, or a compounding period, within a projection year.
+export interface PeriodData {
+  year: number;
+  period: number; // 1-based within the year
+  periodStartDate?: string; // ISO dates, as on YearlyData; only with a start date
+  periodEndDate?: string;
+  startingBalance: number;
+  contributions: number;
+  interestEarned: number;
+  endingBalance: number;
+  taxesPaid?: number;
+  feesPaid?: number;
+  eventDeposits?: number;
+  eventWithdrawals?: number;
 }